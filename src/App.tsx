@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { DndProvider } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { TopBar } from './components/TopBar';
@@ -6,9 +6,72 @@ import { LeftPanel } from './components/LeftPanel';
 import { MainContent } from './components/MainContent';
 import { RightPanel } from './components/RightPanel';
 import { PreviewModal } from './components/PreviewModal';
+import { useAppStore } from './store/useAppStore';
+import { persistenceService } from './services/PersistenceService';
+
+const AUTOSAVE_DELAY = 1000;
 
 function App() {
   const [showPreview, setShowPreview] = useState(false);
+  const { undo, redo, restoreProject } = useAppStore();
+
+  useEffect(() => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+
+    restoreProject().then(() => {
+      if (cancelled) return;
+
+      unsubscribe = useAppStore.subscribe((state, prev) => {
+        if (
+          state.components === prev.components &&
+          state.pages === prev.pages &&
+          state.apis === prev.apis &&
+          state.sqlQueries === prev.sqlQueries &&
+          state.workflows === prev.workflows &&
+          state.datasources === prev.datasources &&
+          state.globalState === prev.globalState &&
+          state.settings === prev.settings &&
+          state.projectName === prev.projectName &&
+          state.historyRevision === prev.historyRevision
+        ) {
+          return;
+        }
+
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(() => {
+          persistenceService.autoSave(useAppStore.getState().getProjectDocument());
+        }, AUTOSAVE_DELAY);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+      unsubscribe?.();
+    };
+  }, [restoreProject]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      // Leave text fields to their native undo
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   return (
     <DndProvider backend={HTML5Backend}>
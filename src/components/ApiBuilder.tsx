@@ -8,8 +8,11 @@ import {
   Plus,
   Trash2,
   Eye,
-  EyeOff
+  EyeOff,
+  X
 } from 'lucide-react';
+import { DEFAULT_RETRY_STATUSES } from '../engine/ActionManager';
+import { CacheSettings } from './editors/CacheSettings';
 
 const methodColors = {
   GET: 'bg-green-600 hover:bg-green-700',
@@ -20,10 +23,12 @@ const methodColors = {
 };
 
 export const ApiBuilder: React.FC = () => {
-  const { selectedApi, updateApi, runApi } = useAppStore();
+  const { selectedApi, updateApi, runApi, cancelApi } = useAppStore();
   const [activeSection, setActiveSection] = useState<'request' | 'response'>('request');
   const [showHeaders, setShowHeaders] = useState(true);
   const [showAuth, setShowAuth] = useState(false);
+  const [showRetry, setShowRetry] = useState(false);
+  const [showCache, setShowCache] = useState(false);
 
   if (!selectedApi) {
     return (
@@ -102,6 +107,15 @@ export const ApiBuilder: React.FC = () => {
             )}
             {selectedApi.isLoading ? 'Running...' : 'Send'}
           </button>
+          {selectedApi.isLoading && (
+            <button
+              onClick={() => cancelApi(selectedApi.id)}
+              className="px-3 py-2 bg-red-600 hover:bg-red-700 rounded-md text-sm font-medium flex items-center gap-2 transition-colors"
+            >
+              <X className="w-4 h-4" />
+              Cancel
+            </button>
+          )}
           <button className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded-md text-sm font-medium flex items-center gap-2 transition-colors">
             <Save className="w-4 h-4" />
             Save
@@ -215,6 +229,90 @@ export const ApiBuilder: React.FC = () => {
               )}
             </div>
 
+            {/* Timeout & Retry Section */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <button
+                  onClick={() => setShowRetry(!showRetry)}
+                  className="flex items-center gap-2 text-sm font-medium text-gray-300 hover:text-white"
+                >
+                  {showRetry ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  Timeout & Retry
+                </button>
+              </div>
+
+              {showRetry && (
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-xs text-gray-400">
+                    Timeout (ms)
+                    <input
+                      type="number"
+                      min={0}
+                      value={selectedApi.timeout ?? 30000}
+                      onChange={(e) => updateApi(selectedApi.id, { timeout: Number(e.target.value) || undefined })}
+                      className="mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    Retries
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={selectedApi.retries ?? 0}
+                      onChange={(e) => updateApi(selectedApi.id, { retries: Math.max(0, Number(e.target.value) || 0) })}
+                      className="mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    First retry after (ms)
+                    <input
+                      type="number"
+                      min={0}
+                      value={selectedApi.retryDelay ?? 500}
+                      onChange={(e) => updateApi(selectedApi.id, { retryDelay: Math.max(0, Number(e.target.value) || 0) })}
+                      className="mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    Retry on status
+                    <input
+                      key={selectedApi.id}
+                      type="text"
+                      defaultValue={(selectedApi.retryOn ?? DEFAULT_RETRY_STATUSES).join(', ')}
+                      onBlur={(e) => updateApi(selectedApi.id, {
+                        retryOn: e.target.value
+                          .split(',')
+                          .map((status) => parseInt(status.trim(), 10))
+                          .filter((status) => !Number.isNaN(status))
+                      })}
+                      className="mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                    />
+                  </label>
+                  <p className="col-span-2 text-xs text-gray-500">
+                    Network errors and timeouts are always retried. The wait doubles after each attempt, with jitter.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Caching Section */}
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <button
+                  onClick={() => setShowCache(!showCache)}
+                  className="flex items-center gap-2 text-sm font-medium text-gray-300 hover:text-white"
+                >
+                  {showCache ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  Caching {selectedApi.cache ? '(on)' : ''}
+                </button>
+              </div>
+
+              {showCache && (
+                <CacheSettings cache={selectedApi.cache} onChange={(cache) => updateApi(selectedApi.id, { cache })} />
+              )}
+            </div>
+
             {/* Body Section */}
             {selectedApi.method !== 'GET' && (
               <div>
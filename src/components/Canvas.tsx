@@ -3,6 +3,7 @@ import { useDrop } from 'react-dnd';
 import { useAppStore } from '../store/useAppStore';
 import { ComponentData } from '../types';
 import { DraggableComponent } from './canvas/DraggableComponent';
+import { createWidgetName } from '../engine/WidgetNames';
 import { nanoid } from 'nanoid';
 
 export const Canvas: React.FC = () => {
@@ -15,7 +16,8 @@ export const Canvas: React.FC = () => {
     canvasScale, 
     snapToGrid, 
     gridSize,
-    updateComponent
+    updateComponent,
+    getComponentNames
   } = useAppStore();
 
   const [{ isOver }, drop] = useDrop({
@@ -40,6 +42,7 @@ export const Canvas: React.FC = () => {
           // Adding new component
           const newComponent: ComponentData = {
             id: nanoid(),
+            name: createWidgetName(item.componentType, getComponentNames()),
             type: item.componentType,
             x,
             y,
@@ -15,8 +15,7 @@ const componentDefinitions: ComponentDefinition[] = [
       disabled: false,
       loading: false,
       variant: 'primary',
-      size: 'md',
-      actions: { onClick: { type: 'alert', params: { message: 'Button clicked!' } } }
+      size: 'md'
     },
     defaultStyle: { backgroundColor: '#3B82F6', color: 'white', borderRadius: '6px', border: 'none', padding: '8px 16px', cursor: 'pointer' },
     defaultSize: { width: 120, height: 40 },
@@ -98,7 +97,6 @@ const componentDefinitions: ComponentDefinition[] = [
       src: 'https://images.pexels.com/photos/3685175/pexels-photo-3685175.jpeg?auto=compress&cs=tinysrgb&w=400', 
       alt: 'Sample image',
       fit: 'cover',
-      clickAction: { type: 'none' },
       visible: true,
       borderRadius: '0px',
       opacity: 1,
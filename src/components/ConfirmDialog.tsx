@@ -0,0 +1,40 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { ConfirmRequest } from '../engine/ActionManager';
+
+interface ConfirmDialogProps {
+  request: ConfirmRequest;
+  onResolve: (confirmed: boolean) => void;
+}
+
+/**
+ * Asks the user before an event step with `confirm` runs. Closing the
+ * dialog any other way counts as declining.
+ */
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ request, onResolve }) => (
+  <Modal isOpen title={request.title} size="sm" showCloseButton={false} onClose={() => onResolve(false)}>
+    <div className="flex items-start gap-3">
+      {request.destructive && <AlertTriangle className="w-5 h-5 flex-shrink-0 text-red-500" />}
+      {request.message && <p className="text-sm text-gray-700 whitespace-pre-wrap">{request.message}</p>}
+    </div>
+    <div className="flex justify-end gap-2 mt-6">
+      <button
+        onClick={() => onResolve(false)}
+        autoFocus={request.destructive}
+        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+      >
+        {request.cancelLabel}
+      </button>
+      <button
+        onClick={() => onResolve(true)}
+        autoFocus={!request.destructive}
+        className={`px-4 py-2 text-sm font-medium text-white rounded-md ${
+          request.destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+        }`}
+      >
+        {request.confirmLabel}
+      </button>
+    </div>
+  </Modal>
+);
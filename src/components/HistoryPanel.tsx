@@ -0,0 +1,127 @@
+import React from 'react';
+import { useAppStore } from '../store/useAppStore';
+import { historyManager, HistoryEntry, HistoryBranch } from '../engine/HistoryManager';
+import { ComponentData } from '../types';
+import { History, GitBranch, Circle, CheckCircle } from 'lucide-react';
+
+export const HistoryPanel: React.FC = () => {
+  const { components, jumpToHistory, checkoutHistoryBranch } = useAppStore();
+
+  const entries = historyManager.getHistory();
+  const currentIndex = historyManager.getCurrentIndex();
+  const branches = historyManager.getBranches();
+
+  const getComponentNames = (entry: HistoryEntry): string[] => {
+    const ids = new Set<string>();
+    const snapshots: Record<string, ComponentData> = {};
+
+    const collect = (item: HistoryEntry) => {
+      if (item.componentId) ids.add(item.componentId);
+      if (item.action === 'add' && item.after) snapshots[item.after.id] = item.after;
+      if (item.action === 'delete' && item.before) snapshots[item.before.id] = item.before;
+      item.entries?.forEach(collect);
+    };
+    collect(entry);
+
+    return [...ids].map((id) => {
+      const component = components.find((comp) => comp.id === id) || snapshots[id];
+      return component ? component.name || component.type : id.slice(0, 8);
+    });
+  };
+
+  const getBranchesAt = (forkIndex: number): HistoryBranch[] =>
+    branches.filter((branch) => branch.forkIndex === forkIndex);
+
+  const renderBranches = (forkIndex: number) =>
+    getBranchesAt(forkIndex).map((branch) => {
+      const lastEntry = branch.entries[branch.entries.length - 1];
+      return (
+        <button
+          key={branch.id}
+          onClick={() => checkoutHistoryBranch(branch.id)}
+          className="w-full ml-4 flex items-center gap-2 px-3 py-2 rounded-lg text-left text-xs text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+          title="Switch to this branch"
+        >
+          <GitBranch className="w-3 h-3 flex-shrink-0 text-purple-400" />
+          <span className="flex-1 truncate">
+            {branch.entries.length} step{branch.entries.length === 1 ? '' : 's'} · {lastEntry?.label}
+          </span>
+          <span>{new Date(branch.createdAt).toLocaleTimeString()}</span>
+        </button>
+      );
+    });
+
+  return (
+    <div className="p-4 h-full overflow-y-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <History className="w-5 h-5" />
+          History
+        </h3>
+        <span className="text-xs text-gray-400">
+          {currentIndex + 1}/{entries.length}
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        <button
+          onClick={() => jumpToHistory(-1)}
+          className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors ${
+            currentIndex === -1 ? 'bg-blue-600 text-white' : 'hover:bg-gray-700 text-gray-300'
+          }`}
+        >
+          <Circle className="w-4 h-4 flex-shrink-0" />
+          <span className="text-sm font-medium">Initial state</span>
+        </button>
+        {renderBranches(-1)}
+
+        {entries.map((entry, index) => {
+          const isCurrent = index === currentIndex;
+          const isUndone = index > currentIndex;
+          const names = getComponentNames(entry);
+
+          return (
+            <React.Fragment key={entry.id}>
+              <button
+                onClick={() => jumpToHistory(index)}
+                className={`w-full flex items-start gap-3 p-3 rounded-lg text-left transition-colors ${
+                  isCurrent
+                    ? 'bg-blue-600 text-white'
+                    : isUndone
+                    ? 'text-gray-500 hover:bg-gray-700'
+                    : 'text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {isCurrent ? (
+                  <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                ) : (
+                  <Circle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{entry.label}</div>
+                  <div className={`flex items-center gap-2 text-xs ${isCurrent ? 'text-blue-100' : 'text-gray-400'}`}>
+                    <span>{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                    {names.length > 0 && (
+                      <>
+                        <span>•</span>
+                        <span className="truncate">{names.join(', ')}</span>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </button>
+              {renderBranches(index)}
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      {entries.length === 0 && (
+        <div className="text-center py-8 text-gray-400">
+          <History className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No changes yet</p>
+        </div>
+      )}
+    </div>
+  );
+};
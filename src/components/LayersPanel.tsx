@@ -27,9 +27,9 @@ export const LayersPanel: React.FC = () => {
               <Eye className="w-4 h-4" />
             </button>
             <div className="flex-1 text-sm">
-              <div className="font-medium capitalize">{component.type}</div>
+              <div className="font-medium">{component.name}</div>
               <div className="text-gray-400 text-xs">
-                {Math.round(component.x)}, {Math.round(component.y)}
+                <span className="capitalize">{component.type}</span> · {Math.round(component.x)}, {Math.round(component.y)}
               </div>
             </div>
           </div>
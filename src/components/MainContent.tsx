@@ -3,6 +3,7 @@ import { useAppStore } from '../store/useAppStore';
 import { Canvas } from './Canvas';
 import { ApiBuilder } from './ApiBuilder';
 import { SqlEditor } from './SqlEditor';
+import { WorkflowBuilder } from './WorkflowBuilder';
 import { DatasourceManager } from './DatasourceManager';
 import { MonacoCodeEditor } from './editors/MonacoCodeEditor';
 
@@ -14,6 +15,7 @@ export const MainContent: React.FC = () => {
       {activeTab === 'canvas' && <Canvas />}
       {activeTab === 'api' && <ApiBuilder />}
       {activeTab === 'sql' && <SqlEditor />}
+      {activeTab === 'workflows' && <WorkflowBuilder />}
       {activeTab === 'datasources' && <DatasourceManager />}
       {activeTab === 'code' && <MonacoCodeEditor />}
     </div>
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Modal } from './ui/Modal';
+import { useAppStore } from '../store/useAppStore';
+import { expressionEngine } from '../engine/ExpressionEngine';
+import { findRouteConflict, validateRoute } from '../engine/Router';
+import { AppPage } from '../types';
+
+interface PageSettingsDialogProps {
+  page: AppPage;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:border-blue-500';
+
+const Field: React.FC<{ label: string; hint?: string; error?: string | null; children: React.ReactNode }> = ({
+  label,
+  hint,
+  error,
+  children
+}) => (
+  <label className="block">
+    <span className="block text-sm font-medium text-gray-700 mb-1">{label}</span>
+    {children}
+    {error ? (
+      <span className="flex items-center gap-1 mt-1 text-xs text-red-600">
+        <AlertTriangle className="w-3 h-3" />
+        {error}
+      </span>
+    ) : (
+      hint && <span className="block mt-1 text-xs text-gray-500">{hint}</span>
+    )}
+  </label>
+);
+
+/**
+ * Route, SEO, home page and access settings for one page. Nothing is
+ * written to the store until Save, which stays disabled while a field is
+ * invalid.
+ */
+export const PageSettingsDialog: React.FC<PageSettingsDialogProps> = ({ page, onClose }) => {
+  const { pages, updatePage, setHomePage } = useAppStore();
+  const [route, setRoute] = useState(page.route || '');
+  const [isHomePage, setIsHomePage] = useState(Boolean(page.isHomePage));
+  const [title, setTitle] = useState(page.seo?.title || '');
+  const [description, setDescription] = useState(page.seo?.description || '');
+  const [keywords, setKeywords] = useState((page.seo?.keywords || []).join(', '));
+  const [condition, setCondition] = useState(page.access?.condition || '');
+  const [redirectTo, setRedirectTo] = useState(page.access?.redirectTo || '');
+
+  const trimmedRoute = route.trim();
+  const conflict = findRouteConflict(pages, trimmedRoute, page.id);
+  const routeError = validateRoute(trimmedRoute)
+    || (conflict && `Matches the same paths as "${conflict.name}" (${conflict.route})`);
+
+  const trimmedCondition = condition.trim();
+  const conditionError = !trimmedCondition
+    ? null
+    : !expressionEngine.hasExpression(trimmedCondition)
+      ? 'Wrap the condition in {{ }}'
+      : expressionEngine.validateTemplate(trimmedCondition).error || null;
+
+  const trimmedRedirect = redirectTo.trim();
+  const redirectError = trimmedRedirect && !trimmedRedirect.startsWith('/') ? 'Redirect must be a path starting with /' : null;
+
+  const hasErrors = Boolean(routeError || conditionError || redirectError);
+
+  const save = () => {
+    if (hasErrors) return;
+    updatePage(page.id, {
+      route: trimmedRoute || undefined,
+      seo: {
+        title: title.trim() || undefined,
+        description: description.trim() || undefined,
+        keywords: keywords.split(',').map((keyword) => keyword.trim()).filter(Boolean)
+      },
+      access: trimmedCondition ? { condition: trimmedCondition, redirectTo: trimmedRedirect || undefined } : undefined
+    });
+    if (isHomePage && !page.isHomePage) {
+      setHomePage(page.id);
+    }
+    onClose();
+  };
+
+  return (
+    <Modal isOpen title={`${page.name} settings`} size="lg" onClose={onClose}>
+      <div className="space-y-6 text-gray-900">
+        <section className="space-y-3">
+          <h3 className="text-xs font-semibold uppercase text-gray-500">Routing</h3>
+          <Field
+            label="Route"
+            hint="Use :name for parameters, e.g. /orders/:id. Without a route the page is reached by its name."
+            error={routeError}
+          >
+            <input
+              value={route}
+              onChange={(e) => setRoute(e.target.value)}
+              placeholder="/orders/:id"
+              className={`${inputClass} font-mono ${routeError ? 'border-red-500' : ''}`}
+            />
+          </Field>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={isHomePage}
+              disabled={page.isHomePage}
+              onChange={(e) => setIsHomePage(e.target.checked)}
+            />
+            Home page
+            {page.isHomePage && (
+              <span className="text-xs text-gray-500">Make another page the home page to change this</span>
+            )}
+          </label>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-xs font-semibold uppercase text-gray-500">SEO</h3>
+          <Field label="Title" hint="Shown in the browser tab. Defaults to the page name.">
+            <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder={page.name} className={inputClass} />
+          </Field>
+          <Field label="Description">
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              className={`${inputClass} resize-none`}
+            />
+          </Field>
+          <Field label="Keywords" hint="Separate keywords with commas">
+            <input value={keywords} onChange={(e) => setKeywords(e.target.value)} className={inputClass} />
+          </Field>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-xs font-semibold uppercase text-gray-500">Access</h3>
+          <Field
+            label="Allow when"
+            hint="Checked when the page opens, with store, actions and page.params in scope. Leave empty to allow everyone."
+            error={conditionError}
+          >
+            <input
+              value={condition}
+              onChange={(e) => setCondition(e.target.value)}
+              placeholder="{{ store.user?.role === 'admin' }}"
+              className={`${inputClass} font-mono ${conditionError ? 'border-red-500' : ''}`}
+            />
+          </Field>
+          <Field
+            label="Otherwise redirect to"
+            hint="Leave empty to show an access denied page"
+            error={redirectError}
+          >
+            <input
+              value={redirectTo}
+              onChange={(e) => setRedirectTo(e.target.value)}
+              placeholder="/login"
+              disabled={!trimmedCondition}
+              className={`${inputClass} font-mono disabled:bg-gray-100 ${redirectError ? 'border-red-500' : ''}`}
+            />
+          </Field>
+        </section>
+      </div>
+
+      <div className="flex justify-end gap-2 mt-6">
+        <button
+          onClick={onClose}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          disabled={hasErrors}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+    </Modal>
+  );
+};
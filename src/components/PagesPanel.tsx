@@ -1,7 +1,193 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
+import { useDrag, useDrop } from 'react-dnd';
 import { useAppStore } from '../store/useAppStore';
-import { Plus, FileText, MoreVertical, Edit2, Trash2, Copy } from 'lucide-react';
+import { Plus, FileText, MoreVertical, Edit2, Trash2, Copy, Zap, Settings, Home, AlertTriangle } from 'lucide-react';
 import { nanoid } from 'nanoid';
+import { AppPage, PagePolling } from '../types';
+import { findRouteConflict, routeFromName } from '../engine/Router';
+import { ActionStepsEditor } from './panels/EventsEditor';
+import { PageSettingsDialog } from './PageSettingsDialog';
+
+const DEFAULT_POLL_INTERVAL = 30000;
+
+/**
+ * What runs while a page is open: APIs and queries on load, onLoad/onUnload
+ * steps and interval polling.
+ */
+const PageLifecycle: React.FC<{ page: AppPage }> = ({ page }) => {
+  const { apis, sqlQueries, workflows, updatePage } = useAppStore();
+  const polling = page.polling || [];
+  const actionNames = [
+    ...apis.map((api) => api.name),
+    ...sqlQueries.map((query) => query.name),
+    ...workflows.map((workflow) => workflow.name)
+  ];
+
+  const toggle = (key: 'apis' | 'queries', id: string) =>
+    updatePage(page.id, {
+      [key]: page[key].includes(id) ? page[key].filter((existing) => existing !== id) : [...page[key], id]
+    });
+
+  const updatePoll = (id: string, updates: Partial<PagePolling>) =>
+    updatePage(page.id, { polling: polling.map((poll) => (poll.id === id ? { ...poll, ...updates } : poll)) });
+
+  const sources = [
+    { key: 'apis' as const, label: 'APIs', items: apis },
+    { key: 'queries' as const, label: 'Queries', items: sqlQueries }
+  ];
+
+  return (
+    <div className="p-3 bg-gray-750 rounded-lg space-y-4 text-gray-300">
+      <div>
+        <h4 className="text-xs font-semibold uppercase text-gray-400 mb-2">Run on page load</h4>
+        {sources.map(({ key, label, items }) => (
+          <div key={key} className="mb-2">
+            <div className="text-xs text-gray-500 mb-1">{label}</div>
+            {items.length === 0 ? (
+              <p className="text-xs text-gray-500">None yet</p>
+            ) : (
+              items.map((item) => (
+                <label key={item.id} className="flex items-center gap-2 text-sm py-0.5">
+                  <input
+                    type="checkbox"
+                    checked={page[key].includes(item.id)}
+                    onChange={() => toggle(key, item.id)}
+                  />
+                  <span className="truncate">{item.name}</span>
+                </label>
+              ))
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="p-2 bg-white rounded space-y-3">
+        <ActionStepsEditor
+          label="On load"
+          name="onLoad"
+          description="Runs after the page's APIs and queries start"
+          steps={page.onLoad || []}
+          onChange={(onLoad) => updatePage(page.id, { onLoad })}
+        />
+        <ActionStepsEditor
+          label="On unload"
+          name="onUnload"
+          description="Runs when the page closes; its pending requests are cancelled first"
+          steps={page.onUnload || []}
+          onChange={(onUnload) => updatePage(page.id, { onUnload })}
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-xs font-semibold uppercase text-gray-400">Polling</h4>
+          <button
+            onClick={() =>
+              updatePage(page.id, {
+                polling: [...polling, { id: nanoid(), actionId: actionNames[0] || '', interval: DEFAULT_POLL_INTERVAL, pauseWhenHidden: true }]
+              })
+            }
+            disabled={actionNames.length === 0}
+            className="p-1 text-gray-400 hover:text-white hover:bg-gray-700 rounded disabled:opacity-30"
+            title="Add polling"
+          >
+            <Plus className="w-3 h-3" />
+          </button>
+        </div>
+        {polling.length === 0 && <p className="text-xs text-gray-500">Nothing is polled</p>}
+        <div className="space-y-2">
+          {polling.map((poll) => (
+            <div key={poll.id} className="p-2 bg-gray-700 rounded space-y-2">
+              <div className="flex items-center gap-2">
+                <select
+                  value={poll.actionId}
+                  onChange={(e) => updatePoll(poll.id, { actionId: e.target.value })}
+                  className="flex-1 min-w-0 p-1 bg-gray-800 border border-gray-600 rounded text-white text-xs"
+                >
+                  {!actionNames.includes(poll.actionId) && <option value={poll.actionId}>{poll.actionId || 'Select action'}</option>}
+                  {actionNames.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => updatePage(page.id, { polling: polling.filter((p) => p.id !== poll.id) })}
+                  className="p-1 text-red-400 hover:bg-red-600 hover:text-white rounded"
+                  title="Remove"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-gray-400">Every (ms)</span>
+                <input
+                  type="number"
+                  min={1000}
+                  step={1000}
+                  value={poll.interval}
+                  onChange={(e) => updatePoll(poll.id, { interval: Number(e.target.value) || DEFAULT_POLL_INTERVAL })}
+                  className="w-24 p-1 bg-gray-800 border border-gray-600 rounded text-white"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={poll.pauseWhenHidden !== false}
+                  onChange={(e) => updatePoll(poll.id, { pauseWhenHidden: e.target.checked })}
+                />
+                Pause while the tab is hidden
+              </label>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const PAGE_DRAG_TYPE = 'page';
+
+interface PageDragItem {
+  id: string;
+  index: number;
+}
+
+// Dropping a page on another one moves it in front of that page
+const SortablePage: React.FC<{ pageId: string; index: number; disabled: boolean; children: React.ReactNode }> = ({
+  pageId,
+  index,
+  disabled,
+  children
+}) => {
+  const { movePage } = useAppStore();
+  const ref = useRef<HTMLDivElement>(null);
+
+  const [{ isDragging }, drag] = useDrag({
+    type: PAGE_DRAG_TYPE,
+    item: { id: pageId, index },
+    canDrag: !disabled,
+    collect: (monitor) => ({
+      isDragging: monitor.isDragging(),
+    }),
+  });
+
+  const [{ isOver }, drop] = useDrop({
+    accept: PAGE_DRAG_TYPE,
+    drop: (item: PageDragItem) => {
+      if (item.id !== pageId) movePage(item.id, item.index < index ? index - 1 : index);
+    },
+    collect: (monitor) => ({
+      isOver: monitor.isOver() && monitor.getItem<PageDragItem>()?.id !== pageId,
+    }),
+  });
+
+  drag(drop(ref));
+
+  return (
+    <div ref={ref} className={`space-y-1 border-t-2 ${isOver ? 'border-blue-400' : 'border-transparent'} ${isDragging ? 'opacity-50' : ''}`}>
+      {children}
+    </div>
+  );
+};
 
 export const PagesPanel: React.FC = () => {
   const { 
@@ -9,6 +195,7 @@ export const PagesPanel: React.FC = () => {
     currentPageId, 
     addPage, 
     deletePage, 
+    duplicatePage,
     setCurrentPage,
     updatePage 
   } = useAppStore();
@@ -16,12 +203,16 @@ export const PagesPanel: React.FC = () => {
   const [newPageName, setNewPageName] = useState('');
   const [editingPageId, setEditingPageId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
+  const [lifecyclePageId, setLifecyclePageId] = useState<string | null>(null);
+  const [settingsPageId, setSettingsPageId] = useState<string | null>(null);
+  const settingsPage = pages.find((page) => page.id === settingsPageId);
 
   const handleAddPage = () => {
     if (newPageName.trim()) {
       const newPage = {
         id: nanoid(),
         name: newPageName.trim(),
+        route: routeFromName(pages, newPageName.trim()),
         components: [],
         apis: [],
         queries: []
@@ -91,65 +282,111 @@ export const PagesPanel: React.FC = () => {
 
       {/* Pages List */}
       <div className="space-y-2">
-        {pages.map((page) => (
-          <div
-            key={page.id}
-            className={`group flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-all ${
-              currentPageId === page.id
-                ? 'bg-blue-600 text-white'
-                : 'hover:bg-gray-700 text-gray-300'
-            }`}
-            onClick={() => setCurrentPage(page.id)}
-          >
-            <FileText className="w-4 h-4 flex-shrink-0" />
+        {pages.map((page, index) => {
+          const conflict = page.route ? findRouteConflict(pages, page.route, page.id) : undefined;
+          return (
+            <SortablePage key={page.id} pageId={page.id} index={index} disabled={editingPageId === page.id}>
+              <div
+                className={`group flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-all ${
+                  currentPageId === page.id
+                    ? 'bg-blue-600 text-white'
+                    : 'hover:bg-gray-700 text-gray-300'
+                }`}
+                onClick={() => setCurrentPage(page.id)}
+              >
+                <FileText className="w-4 h-4 flex-shrink-0" />
             
-            {editingPageId === page.id ? (
-              <input
-                type="text"
-                value={editingName}
-                onChange={(e) => setEditingName(e.target.value)}
-                className="flex-1 bg-transparent border-b border-gray-400 text-sm outline-none"
-                autoFocus
-                onBlur={() => handleEditPage(page.id, editingName)}
-                onKeyPress={(e) => {
-                  if (e.key === 'Enter') {
-                    handleEditPage(page.id, editingName);
-                  }
-                }}
-                onClick={(e) => e.stopPropagation()}
-              />
-            ) : (
-              <span className="flex-1 text-sm font-medium truncate">
-                {page.name}
-              </span>
-            )}
+                {editingPageId === page.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    className="flex-1 bg-transparent border-b border-gray-400 text-sm outline-none"
+                    autoFocus
+                    onBlur={() => handleEditPage(page.id, editingName)}
+                    onKeyPress={(e) => {
+                      if (e.key === 'Enter') {
+                        handleEditPage(page.id, editingName);
+                      }
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                ) : (
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1">
+                      <span className="text-sm font-medium truncate">{page.name}</span>
+                      {page.isHomePage && <Home className="w-3 h-3 flex-shrink-0 opacity-70" />}
+                    </div>
+                    {page.route && <div className="text-xs font-mono opacity-70 truncate">{page.route}</div>}
+                  </div>
+                )}
 
-            <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  startEditing(page.id, page.name);
-                }}
-                className="p-1 hover:bg-gray-600 rounded transition-colors"
-              >
-                <Edit2 className="w-3 h-3" />
-              </button>
-              {pages.length > 1 && (
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    deletePage(page.id);
-                  }}
-                  className="p-1 hover:bg-red-600 rounded transition-colors text-red-400"
-                >
-                  <Trash2 className="w-3 h-3" />
-                </button>
-              )}
-            </div>
-          </div>
-        ))}
+                {conflict && (
+                  <span title={`Route conflicts with "${conflict.name}"`}>
+                    <AlertTriangle className="w-4 h-4 flex-shrink-0 text-yellow-400" />
+                  </span>
+                )}
+
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startEditing(page.id, page.name);
+                    }}
+                    className="p-1 hover:bg-gray-600 rounded transition-colors"
+                  >
+                    <Edit2 className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSettingsPageId(page.id);
+                    }}
+                    className="p-1 hover:bg-gray-600 rounded transition-colors"
+                    title="Page settings"
+                  >
+                    <Settings className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setLifecyclePageId(lifecyclePageId === page.id ? null : page.id);
+                    }}
+                    className="p-1 hover:bg-gray-600 rounded transition-colors"
+                    title="Load, unload and polling"
+                  >
+                    <Zap className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      duplicatePage(page.id);
+                    }}
+                    className="p-1 hover:bg-gray-600 rounded transition-colors"
+                  >
+                    <Copy className="w-3 h-3" />
+                  </button>
+                  {pages.length > 1 && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        deletePage(page.id);
+                      }}
+                      className="p-1 hover:bg-red-600 rounded transition-colors text-red-400"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              {lifecyclePageId === page.id && <PageLifecycle page={page} />}
+            </SortablePage>
+          );
+        })}
       </div>
 
+      {settingsPage && <PageSettingsDialog page={settingsPage} onClose={() => setSettingsPageId(null)} />}
+
       {pages.length === 0 && (
         <div className="text-center py-8 text-gray-400">
           <FileText className="w-8 h-8 mx-auto mb-2 opacity-50" />
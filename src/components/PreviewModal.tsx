@@ -1,51 +1,178 @@
-import React from 'react';
-import { X } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, X } from 'lucide-react';
 import { useAppStore } from '../store/useAppStore';
-import { RenderComponent } from './RenderComponent';
+import { RuntimeRenderer } from '../engine/RuntimeRenderer';
+import { actionManager } from '../engine/ActionManager';
+import { checkPageAccess, formatLocation, parseLocation, resolvePage, router, RouteLocation } from '../engine/Router';
+import { AppPage } from '../types';
 
 interface PreviewModalProps {
   onClose: () => void;
 }
 
+// Pages without a route are reached by name
+const pagePath = (page: AppPage) => page.route || (page.isHomePage ? '/' : `/${encodeURIComponent(page.name)}`);
+
 export const PreviewModal: React.FC<PreviewModalProps> = ({ onClose }) => {
-  const { components } = useAppStore();
+  const { components, pages, currentPageId, globalState } = useAppStore();
+  const [location, setLocation] = useState<RouteLocation>(() => {
+    const page = pages.find((p) => p.id === currentPageId);
+    return parseLocation(page ? pagePath(page) : '/');
+  });
+
+  // The router starts from the page that was open when Preview opened
+  const initialLocation = useRef(location);
+
+  const match = useMemo(() => resolvePage(pages, location.path), [pages, location.path]);
+  const page = match?.page;
+  // The current page's live canvas hasn't been written back into `pages` yet
+  const pageComponents = page?.id === currentPageId ? components : page?.components || [];
+
+  // Access is checked each time a page is entered, not when only its params change
+  const [access, setAccess] = useState<{ pageId: string; allowed: boolean } | null>(null);
+  const guarded = Boolean(page?.access?.condition?.trim());
+  const checked = !guarded || access?.pageId === page?.id;
+  const denied = guarded && checked && !access?.allowed;
+  const latest = useRef({ match, location, pages, globalState });
+  latest.current = { match, location, pages, globalState };
+  const pageId = page?.id;
+  // Pages already redirected away from on the way to `to`, so guards that
+  // redirect to each other end on the access denied page instead of looping
+  const redirectChain = useRef<{ to: string; from: string[] } | null>(null);
+
+  useEffect(() => {
+    const { match: entered, location: current, globalState: store } = latest.current;
+    const pending = redirectChain.current;
+    const chain = pending && pending.to === entered?.page.id ? pending.from : [];
+    redirectChain.current = null;
+    setAccess(null);
+    if (!entered?.page.access?.condition?.trim()) return;
+
+    const target = entered.page;
+    let active = true;
+    checkPageAccess(target, {
+      page: { name: target.name, route: target.route, params: entered.params, query: current.query },
+      store
+    }).then((allowed) => {
+      if (!active) return;
+      const redirect = target.access?.redirectTo && parseLocation(target.access.redirectTo);
+      const next = redirect ? resolvePage(latest.current.pages, redirect.path)?.page : undefined;
+      if (!allowed && redirect && next?.id !== target.id && !(next && chain.includes(next.id))) {
+        redirectChain.current = next ? { to: next.id, from: [...chain, target.id] } : null;
+        router.navigate(redirect, true);
+        return;
+      }
+      setAccess({ pageId: target.id, allowed });
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [pageId]);
+
+  useEffect(() => {
+    router.reset(initialLocation.current);
+    const unsubscribe = router.subscribe(setLocation);
+
+    actionManager.onNavigation((request) => {
+      if (request.history === 'back') {
+        router.back();
+      } else if (request.history === 'forward') {
+        router.forward();
+      } else {
+        router.navigate(parseLocation(request.path, request.query), request.history === 'replace');
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      actionManager.onNavigation(undefined);
+    };
+  }, []);
+
+  const homePage = pages.find((p) => p.isHomePage) || pages[0];
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg w-full h-full max-w-6xl max-h-4xl overflow-hidden">
         <div className="bg-gray-100 border-b p-4 flex items-center justify-between">
-          <h2 className="text-lg font-semibold text-gray-900">Preview</h2>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-gray-200 rounded"
-          >
-            <X className="w-5 h-5" />
-          </button>
+          <h2 className="text-lg font-semibold text-gray-900">
+            Preview{page && <span className="ml-2 text-sm font-normal text-gray-500">{page.name}</span>}
+          </h2>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => router.back()}
+                disabled={!router.canGoBack()}
+                className="p-1.5 hover:bg-gray-200 rounded disabled:opacity-30"
+                title="Back"
+              >
+                <ArrowLeft className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => router.forward()}
+                disabled={!router.canGoForward()}
+                className="p-1.5 hover:bg-gray-200 rounded disabled:opacity-30"
+                title="Forward"
+              >
+                <ArrowRight className="w-4 h-4" />
+              </button>
+            </div>
+            <span className="px-3 py-1 bg-white border rounded text-sm text-gray-600 font-mono">
+              {formatLocation(location)}
+            </span>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-200 rounded"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
-        
+
         <div className="relative bg-white h-full overflow-auto">
-          {components.map((component) => (
-            <div
-              key={component.id}
-              className="absolute"
-              style={{
-                left: component.x,
-                top: component.y,
-                width: component.width,
-                height: component.height,
-              }}
-            >
-              <RenderComponent component={component} isPreview={true} />
+          {!match ? (
+            <div className="flex flex-col items-center justify-center h-full text-gray-500 gap-2">
+              <h3 className="text-2xl font-semibold text-gray-700">404</h3>
+              <p>No page matches {location.path}</p>
+              {homePage && (
+                <button
+                  onClick={() => router.navigate(parseLocation(pagePath(homePage)))}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  Go to {homePage.name}
+                </button>
+              )}
             </div>
-          ))}
-          
-          {components.length === 0 && (
-            <div className="flex items-center justify-center h-full text-gray-500">
-              No components to preview. Add some components to your canvas first.
+          ) : denied ? (
+            <div className="flex flex-col items-center justify-center h-full text-gray-500 gap-2">
+              <h3 className="text-2xl font-semibold text-gray-700">Access denied</h3>
+              <p>You don't have access to {page?.name}</p>
+              {homePage && homePage.id !== page?.id && (
+                <button
+                  onClick={() => router.navigate(parseLocation(pagePath(homePage)))}
+                  className="text-sm text-blue-600 hover:underline"
+                >
+                  Go to {homePage.name}
+                </button>
+              )}
             </div>
+          ) : !checked || !page ? null : (
+            <RuntimeRenderer
+              key={page.id}
+              page={page}
+              components={pageComponents}
+              params={match.params}
+              query={location.query}
+              emptyState={
+                <div className="flex items-center justify-center h-full text-gray-500">
+                  No components to preview. Add some components to your canvas first.
+                </div>
+              }
+            />
           )}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
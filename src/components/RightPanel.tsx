@@ -4,11 +4,13 @@ import { PropertiesPanel } from './PropertiesPanel';
 import { DataPanel } from './DataPanel';
 import { LogsPanel } from './LogsPanel';
 import { SettingsPanel } from './SettingsPanel';
+import { HistoryPanel } from './HistoryPanel';
 import { 
   Settings, 
   Database, 
   FileText,
   Cog,
+  History,
   ChevronLeft,
   ChevronRight
 } from 'lucide-react';
@@ -21,6 +23,7 @@ export const RightPanel: React.FC = () => {
     { id: 'properties', label: 'Properties', icon: Settings, show: activeTab === 'canvas' && selectedComponent },
     { id: 'data', label: 'Data', icon: Database, show: true },
     { id: 'logs', label: 'Logs', icon: FileText, show: true },
+    { id: 'history', label: 'History', icon: History, show: true },
     { id: 'settings', label: 'Settings', icon: Cog, show: true },
   ] as const;
 
@@ -103,6 +106,7 @@ export const RightPanel: React.FC = () => {
         {rightPanelTab === 'properties' && <PropertiesPanel />}
         {rightPanelTab === 'data' && <DataPanel />}
         {rightPanelTab === 'logs' && <LogsPanel />}
+        {rightPanelTab === 'history' && <HistoryPanel />}
         {rightPanelTab === 'settings' && <SettingsPanel />}
       </div>
     </div>
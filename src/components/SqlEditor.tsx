@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useAppStore } from '../store/useAppStore';
+import { CacheSettings } from './editors/CacheSettings';
 import { 
   Play, 
   Save, 
@@ -117,6 +118,11 @@ export const SqlEditor: React.FC = () => {
                 className="flex-1 w-full px-4 py-3 bg-gray-800 border border-gray-600 rounded-lg text-white font-mono text-sm resize-none focus:outline-none focus:border-blue-500"
                 style={{ minHeight: '300px' }}
               />
+
+              <div className="mt-4">
+                <h4 className="text-sm font-medium text-gray-300 mb-2">Caching</h4>
+                <CacheSettings cache={selectedQuery.cache} onChange={(cache) => updateSqlQuery(selectedQuery.id, { cache })} />
+              </div>
               
               <div className="mt-4 flex items-center justify-between">
                 <div className="text-sm text-gray-400">
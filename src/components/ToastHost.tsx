@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Info, X, XCircle } from 'lucide-react';
+import { Toast, ToastType, toastManager } from '../engine/ToastManager';
+import { actionManager } from '../engine/ActionManager';
+
+const toastStyles: Record<ToastType, { container: string; icon: React.ElementType; iconColor: string }> = {
+  info: { container: 'border-blue-200 bg-blue-50', icon: Info, iconColor: 'text-blue-500' },
+  success: { container: 'border-green-200 bg-green-50', icon: CheckCircle, iconColor: 'text-green-500' },
+  warning: { container: 'border-yellow-200 bg-yellow-50', icon: AlertTriangle, iconColor: 'text-yellow-500' },
+  error: { container: 'border-red-200 bg-red-50', icon: XCircle, iconColor: 'text-red-500' }
+};
+
+const ToastLinkButton: React.FC<{ toast: Toast }> = ({ toast }) => {
+  const { link } = toast;
+  if (!link) return null;
+
+  // Paths inside the app go through the navigate action; anything else opens in a new tab
+  if (link.url.startsWith('/')) {
+    return (
+      <button
+        onClick={() => {
+          actionManager.execute({ id: `${toast.id}-link`, type: 'navigate', config: { path: link.url } });
+          toastManager.dismiss(toast.id);
+        }}
+        className="mt-1 text-sm font-medium text-blue-600 hover:text-blue-800"
+      >
+        {link.label}
+      </button>
+    );
+  }
+
+  return (
+    <a
+      href={link.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="mt-1 inline-block text-sm font-medium text-blue-600 hover:text-blue-800"
+    >
+      {link.label}
+    </a>
+  );
+};
+
+/**
+ * Renders the toasts raised while the app runs, stacked in the top-right
+ * corner of the runtime.
+ */
+export const ToastHost: React.FC = () => {
+  const [toasts, setToasts] = useState<Toast[]>(toastManager.getToasts());
+
+  useEffect(() => {
+    const detach = toastManager.attachHost();
+    const unsubscribe = toastManager.subscribe(setToasts);
+    return () => {
+      unsubscribe();
+      detach();
+    };
+  }, []);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="absolute top-4 right-4 z-50 flex flex-col gap-2 w-80">
+      {toasts.map((toast) => {
+        const { container, icon: Icon, iconColor } = toastStyles[toast.type] || toastStyles.info;
+        return (
+          <div key={toast.id} role="status" className={`flex items-start gap-3 p-3 border rounded-lg shadow-lg ${container}`}>
+            <Icon className={`w-5 h-5 flex-shrink-0 ${iconColor}`} />
+            <div className="flex-1 min-w-0">
+              {toast.title && <div className="text-sm font-medium text-gray-900">{toast.title}</div>}
+              <div className="text-sm text-gray-700 break-words">{toast.message}</div>
+              <ToastLinkButton toast={toast} />
+            </div>
+            <button
+              onClick={() => toastManager.dismiss(toast.id)}
+              className="p-0.5 text-gray-400 hover:text-gray-600"
+              aria-label="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
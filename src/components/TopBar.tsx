@@ -1,19 +1,56 @@
-import React from 'react';
-import { Play, Save, Download, Upload, Grid2x2 as Grid, Settings, Share2, Eye, Code, Database, FileCode, Globe } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { Play, Save, Download, Upload, Grid2x2 as Grid, Settings, Share2, Eye, Code, Database, FileCode, Globe, Undo2, Redo2, AlertCircle, Workflow } from 'lucide-react';
 import { useAppStore } from '../store/useAppStore';
+import { persistenceService } from '../services/PersistenceService';
+import { Modal } from './ui/Modal';
 
 interface TopBarProps {
   onPreview: () => void;
 }
 
 export const TopBar: React.FC<TopBarProps> = ({ onPreview }) => {
-  const { activeTab, setActiveTab, pages, currentPageId } = useAppStore();
+  const {
+    activeTab, setActiveTab, pages, currentPageId, undo, redo, canUndo, canRedo,
+    saveProject, getProjectDocument, loadProjectDocument
+  } = useAppStore();
   const currentPage = pages.find(p => p.id === currentPageId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  const [importErrors, setImportErrors] = useState<string[] | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveStatus(null);
+    const result = await saveProject();
+    setIsSaving(false);
+
+    if (result.success) {
+      setSaveStatus(result.savedLocally ? 'Saved locally' : 'Saved');
+      setTimeout(() => setSaveStatus(null), 2000);
+    } else {
+      setSaveStatus(`Save failed: ${result.error}`);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = await persistenceService.importProject(file);
+    if (result.success && result.project) {
+      loadProjectDocument(result.project);
+    } else {
+      setImportErrors(result.errors || [result.error || 'Unknown error']);
+    }
+  };
 
   const tabs = [
     { id: 'canvas', label: 'Canvas', icon: Grid },
     { id: 'api', label: 'APIs', icon: Globe },
     { id: 'sql', label: 'Queries', icon: Database },
+    { id: 'workflows', label: 'Workflows', icon: Workflow },
     { id: 'datasources', label: 'Datasources', icon: Database },
     { id: 'code', label: 'Code', icon: FileCode },
   ] as const;
@@ -57,17 +94,61 @@ export const TopBar: React.FC<TopBarProps> = ({ onPreview }) => {
       </div>
 
       <div className="flex items-center gap-3">
+        {/* History Buttons */}
+        <div className="flex items-center gap-1">
+          <button
+            onClick={undo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="p-2 text-gray-300 hover:text-white hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent rounded-md transition-colors"
+          >
+            <Undo2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={redo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="p-2 text-gray-300 hover:text-white hover:bg-gray-700 disabled:text-gray-600 disabled:hover:bg-transparent rounded-md transition-colors"
+          >
+            <Redo2 className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="w-px h-6 bg-gray-600"></div>
+
         {/* Action Buttons */}
         <div className="flex items-center gap-2">
-          <button className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors flex items-center gap-1.5">
+          {saveStatus && (
+            <span className={`text-xs ${saveStatus.startsWith('Save failed') ? 'text-red-400' : 'text-gray-400'}`}>
+              {saveStatus}
+            </span>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded-md transition-colors flex items-center gap-1.5"
+          >
             <Save className="w-4 h-4" />
-            Save
+            {isSaving ? 'Saving...' : 'Save'}
           </button>
-          <button className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors flex items-center gap-1.5">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors flex items-center gap-1.5"
+          >
             <Upload className="w-4 h-4" />
             Import
           </button>
-          <button className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors flex items-center gap-1.5">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+          <button
+            onClick={() => persistenceService.exportProject(getProjectDocument())}
+            className="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-md transition-colors flex items-center gap-1.5"
+          >
             <Download className="w-4 h-4" />
             Export
           </button>
@@ -95,6 +176,22 @@ export const TopBar: React.FC<TopBarProps> = ({ onPreview }) => {
           <Settings className="w-5 h-5" />
         </button>
       </div>
+
+      <Modal
+        isOpen={importErrors !== null}
+        title="Import failed"
+        onClose={() => setImportErrors(null)}
+      >
+        <div className="flex items-start gap-2 mb-3 text-red-600">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <p className="text-sm">The selected file is not a valid project. Nothing was changed.</p>
+        </div>
+        <ul className="max-h-64 overflow-y-auto space-y-1 text-xs font-mono text-gray-700">
+          {importErrors?.map((error, index) => (
+            <li key={index} className="px-2 py-1 bg-red-50 rounded">{error}</li>
+          ))}
+        </ul>
+      </Modal>
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,648 @@
+import React, { useEffect, useState } from 'react';
+import { nanoid } from 'nanoid';
+import {
+  Plus,
+  Trash2,
+  Copy,
+  Play,
+  Workflow as WorkflowIcon,
+  Zap,
+  GitBranch,
+  Split,
+  Repeat,
+  Timer,
+  Variable,
+  CircleDot,
+  AlertCircle
+} from 'lucide-react';
+import { useAppStore } from '../store/useAppStore';
+import { Workflow, WorkflowEdge, WorkflowNode, WorkflowNodeType, WorkflowPort } from '../types';
+import { ActionDefinition, ActionResult } from '../engine/ActionManager';
+import { WORKFLOW_PORTS, workflowEngine } from '../engine/WorkflowEngine';
+import { INLINE_ACTION_DEFAULTS, INLINE_ACTION_LABELS } from '../engine/ComponentEvents';
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 64;
+
+const NODE_TYPES: Record<WorkflowNodeType, { label: string; icon: React.ElementType; color: string; config: Record<string, unknown> }> = {
+  start: { label: 'Start', icon: CircleDot, color: 'border-green-500', config: {} },
+  action: {
+    label: 'Action',
+    icon: Zap,
+    color: 'border-blue-500',
+    config: { actionType: 'showAlert', actionConfig: { ...INLINE_ACTION_DEFAULTS.showAlert }, params: {}, resultVariable: '' }
+  },
+  condition: { label: 'Condition', icon: GitBranch, color: 'border-yellow-500', config: { expression: '' } },
+  parallel: { label: 'Parallel', icon: Split, color: 'border-purple-500', config: {} },
+  loop: { label: 'Loop', icon: Repeat, color: 'border-pink-500', config: { items: '', itemVariable: 'item' } },
+  delay: { label: 'Delay', icon: Timer, color: 'border-gray-400', config: { ms: 1000 } },
+  setVariable: { label: 'Set variable', icon: Variable, color: 'border-cyan-500', config: { name: '', value: '' } }
+};
+
+const PORT_COLORS: Record<WorkflowPort, string> = {
+  next: '#9CA3AF',
+  success: '#22C55E',
+  error: '#EF4444',
+  true: '#22C55E',
+  false: '#EF4444',
+  branch: '#A855F7',
+  body: '#EC4899'
+};
+
+const inputClass = 'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm focus:outline-none focus:border-blue-500';
+
+const getPortPosition = (node: WorkflowNode, port: WorkflowPort) => {
+  const ports = WORKFLOW_PORTS[node.type];
+  return {
+    x: node.x + ((ports.indexOf(port) + 1) * NODE_WIDTH) / (ports.length + 1),
+    y: node.y + NODE_HEIGHT
+  };
+};
+
+const createWorkflow = (taken: string[]): Workflow => {
+  let index = 1;
+  while (taken.includes(`workflow${index}`)) index++;
+
+  return {
+    id: nanoid(),
+    name: `workflow${index}`,
+    nodes: [{ id: nanoid(), type: 'start', x: 80, y: 40, config: {} }],
+    edges: []
+  };
+};
+
+// Objects are edited as JSON and only saved once they parse
+const JsonField: React.FC<{ value: unknown; onChange: (value: Record<string, unknown>) => void }> = ({ value, onChange }) => {
+  const [draft, setDraft] = useState(JSON.stringify(value ?? {}, null, 2));
+  const [error, setError] = useState(false);
+
+  return (
+    <textarea
+      value={draft}
+      rows={4}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        try {
+          onChange(JSON.parse(draft));
+          setError(false);
+        } catch {
+          setError(true);
+        }
+      }}
+      className={`${inputClass} font-mono resize-none ${error ? 'border-red-500' : ''}`}
+    />
+  );
+};
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+  <div>
+    <label className="block text-sm font-medium mb-1">{label}</label>
+    {children}
+    {hint && <p className="mt-1 text-xs text-gray-400">{hint}</p>}
+  </div>
+);
+
+const NodeInspector: React.FC<{
+  node: WorkflowNode;
+  actionNames: string[];
+  onChange: (updates: Partial<WorkflowNode>) => void;
+  onDelete: () => void;
+}> = ({ node, actionNames, onChange, onDelete }) => {
+  const { config } = node;
+  const setConfig = (updates: Record<string, unknown>) => onChange({ config: { ...config, ...updates } });
+  const text = (key: string, placeholder?: string) => (
+    <input
+      type="text"
+      value={String(config[key] ?? '')}
+      onChange={(e) => setConfig({ [key]: e.target.value })}
+      placeholder={placeholder}
+      className={`${inputClass} font-mono`}
+    />
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium">{NODE_TYPES[node.type].label}</h3>
+        {node.type !== 'start' && (
+          <button onClick={onDelete} className="p-1.5 text-red-400 hover:bg-red-600 hover:text-white rounded transition-colors" title="Delete node">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <Field label="Label">
+        <input
+          type="text"
+          value={node.label || ''}
+          onChange={(e) => onChange({ label: e.target.value })}
+          className={inputClass}
+        />
+      </Field>
+
+      {node.type === 'action' && (
+        <>
+          <Field label="Action">
+            <select
+              value={config.actionId ? `action:${config.actionId}` : `type:${config.actionType}`}
+              onChange={(e) => {
+                const separator = e.target.value.indexOf(':');
+                const kind = e.target.value.slice(0, separator);
+                const value = e.target.value.slice(separator + 1);
+                setConfig(
+                  kind === 'action'
+                    ? { actionId: value, actionType: undefined, actionConfig: undefined }
+                    : { actionId: undefined, actionType: value, actionConfig: { ...INLINE_ACTION_DEFAULTS[value as ActionDefinition['type']] } }
+                );
+              }}
+              className={inputClass}
+            >
+              {actionNames.length > 0 && (
+                <optgroup label="Run API, query or workflow">
+                  {actionNames.map((name) => (
+                    <option key={name} value={`action:${name}`}>{name}</option>
+                  ))}
+                </optgroup>
+              )}
+              <optgroup label="Action">
+                {Object.entries(INLINE_ACTION_LABELS).map(([type, label]) => (
+                  <option key={type} value={`type:${type}`}>{label}</option>
+                ))}
+              </optgroup>
+            </select>
+          </Field>
+          {!config.actionId && (
+            <Field label="Config">
+              <JsonField key={String(config.actionType)} value={config.actionConfig} onChange={(actionConfig) => setConfig({ actionConfig })} />
+            </Field>
+          )}
+          <Field label="Params">
+            <JsonField value={config.params} onChange={(params) => setConfig({ params })} />
+          </Field>
+          <Field label="Save result as" hint="Stores the action's data in vars.<name>">
+            {text('resultVariable', 'users')}
+          </Field>
+        </>
+      )}
+
+      {node.type === 'condition' && (
+        <Field label="Condition" hint="Follows true or false, e.g. vars.users.length > 0">
+          {text('expression', 'vars.count > 0')}
+        </Field>
+      )}
+
+      {node.type === 'loop' && (
+        <>
+          <Field label="Items" hint="Runs the body once per item; vars.index holds the position">
+            {text('items', 'vars.users')}
+          </Field>
+          <Field label="Item variable">{text('itemVariable', 'item')}</Field>
+        </>
+      )}
+
+      {node.type === 'delay' && (
+        <Field label="Delay (ms)">
+          <input
+            type="number"
+            value={Number(config.ms) || 0}
+            onChange={(e) => setConfig({ ms: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </Field>
+      )}
+
+      {node.type === 'setVariable' && (
+        <>
+          <Field label="Name">{text('name', 'total')}</Field>
+          <Field label="Value">{text('value', '{{ vars.total + 1 }}')}</Field>
+        </>
+      )}
+
+      {node.type === 'parallel' && (
+        <p className="text-sm text-gray-400">
+          Every node connected to <span className="font-mono">branch</span> runs at the same time; <span className="font-mono">next</span> continues once all of them finish.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export const WorkflowBuilder: React.FC = () => {
+  const {
+    workflows,
+    selectedWorkflow,
+    addWorkflow,
+    updateWorkflow,
+    deleteWorkflow,
+    duplicateWorkflow,
+    selectWorkflow,
+    runWorkflow,
+    apis,
+    sqlQueries
+  } = useAppStore();
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState<{ from: string; port: WorkflowPort } | null>(null);
+  const [dragging, setDragging] = useState<{ id: string; offsetX: number; offsetY: number; x: number; y: number } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [lastRun, setLastRun] = useState<ActionResult | null>(null);
+
+  useEffect(() => {
+    setSelectedNodeId(null);
+    setConnecting(null);
+    setLastRun(null);
+  }, [selectedWorkflow?.id]);
+
+  const handleAdd = () => {
+    const workflow = createWorkflow(workflows.map((w) => w.name));
+    addWorkflow(workflow);
+    selectWorkflow(workflow);
+  };
+
+  if (!selectedWorkflow) {
+    return (
+      <div className="h-full flex">
+        <WorkflowList
+          workflows={workflows}
+          onAdd={handleAdd}
+          onSelect={selectWorkflow}
+          onDelete={deleteWorkflow}
+          onDuplicate={duplicateWorkflow}
+        />
+        <div className="flex-1 flex items-center justify-center text-gray-400">
+          <div className="text-center">
+            <div className="w-16 h-16 mx-auto mb-4 bg-gray-700 rounded-lg flex items-center justify-center">
+              <WorkflowIcon className="w-8 h-8" />
+            </div>
+            <h3 className="text-lg font-medium mb-2">No Workflow Selected</h3>
+            <p className="text-sm">Select a workflow from the list or create a new one</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const workflow = selectedWorkflow;
+  const problems = workflowEngine.validate(workflow);
+  const selectedNode = workflow.nodes.find((node) => node.id === selectedNodeId);
+  const actionNames = [
+    ...apis.map((api) => api.name),
+    ...sqlQueries.map((query) => query.name),
+    ...workflows.filter((w) => w.id !== workflow.id).map((w) => w.name)
+  ];
+
+  const nodePosition = (node: WorkflowNode) =>
+    dragging?.id === node.id ? { ...node, x: dragging.x, y: dragging.y } : node;
+
+  const updateNode = (id: string, updates: Partial<WorkflowNode>) =>
+    updateWorkflow(workflow.id, {
+      nodes: workflow.nodes.map((node) => (node.id === id ? { ...node, ...updates } : node))
+    });
+
+  const addNode = (type: WorkflowNodeType) => {
+    const node: WorkflowNode = {
+      id: nanoid(),
+      type,
+      x: 80 + (workflow.nodes.length % 4) * 220,
+      y: 40 + Math.ceil(workflow.nodes.length / 4) * 120,
+      config: { ...NODE_TYPES[type].config }
+    };
+    updateWorkflow(workflow.id, { nodes: [...workflow.nodes, node] });
+    setSelectedNodeId(node.id);
+  };
+
+  const deleteNode = (id: string) => {
+    updateWorkflow(workflow.id, {
+      nodes: workflow.nodes.filter((node) => node.id !== id),
+      edges: workflow.edges.filter((edge) => edge.from !== id && edge.to !== id)
+    });
+    setSelectedNodeId(null);
+  };
+
+  const connect = (to: string) => {
+    if (!connecting || connecting.from === to) {
+      setConnecting(null);
+      return;
+    }
+
+    // Only a parallel node's branch port fans out; other ports lead to one node
+    const edges = workflow.edges.filter((edge) =>
+      connecting.port === 'branch'
+        ? !(edge.from === connecting.from && edge.port === 'branch' && edge.to === to)
+        : !(edge.from === connecting.from && edge.port === connecting.port)
+    );
+    const edge: WorkflowEdge = { id: nanoid(), from: connecting.from, to, port: connecting.port };
+    updateWorkflow(workflow.id, { edges: [...edges, edge] });
+    setConnecting(null);
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setLastRun(await runWorkflow(workflow.id));
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="h-full flex">
+      <WorkflowList
+        workflows={workflows}
+        selectedId={workflow.id}
+        onAdd={handleAdd}
+        onSelect={selectWorkflow}
+        onDelete={deleteWorkflow}
+        onDuplicate={duplicateWorkflow}
+      />
+
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Header */}
+        <div className="h-16 border-b border-gray-700 flex items-center justify-between px-6 gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <WorkflowIcon className="w-5 h-5 text-blue-400 flex-shrink-0" />
+            <input
+              type="text"
+              value={workflow.name}
+              onChange={(e) => updateWorkflow(workflow.id, { name: e.target.value })}
+              className="bg-transparent font-medium font-mono focus:outline-none focus:bg-gray-700 px-2 py-1 rounded"
+            />
+            <span className="text-xs text-gray-400 truncate">{`{{ actions.${workflow.name}.run() }}`}</span>
+          </div>
+          <button
+            onClick={handleRun}
+            disabled={isRunning || problems.length > 0}
+            className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 rounded-md text-sm font-medium flex items-center gap-2 transition-colors"
+          >
+            {isRunning ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Play className="w-4 h-4" />
+            )}
+            {isRunning ? 'Running...' : 'Run'}
+          </button>
+        </div>
+
+        {/* Node palette */}
+        <div className="h-12 border-b border-gray-700 flex items-center gap-1 px-6">
+          {(Object.keys(NODE_TYPES) as WorkflowNodeType[])
+            .filter((type) => type !== 'start')
+            .map((type) => {
+              const Icon = NODE_TYPES[type].icon;
+              return (
+                <button
+                  key={type}
+                  onClick={() => addNode(type)}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm text-gray-300 hover:text-white hover:bg-gray-700 transition-colors"
+                >
+                  <Icon className="w-4 h-4" />
+                  {NODE_TYPES[type].label}
+                </button>
+              );
+            })}
+          {connecting && (
+            <span className="ml-auto text-xs text-blue-400">
+              Click a node to connect <span className="font-mono">{connecting.port}</span> · Esc to cancel
+            </span>
+          )}
+        </div>
+
+        {/* Graph */}
+        <div
+          className="flex-1 relative overflow-auto bg-gray-900 outline-none"
+          tabIndex={0}
+          onKeyDown={(e) => e.key === 'Escape' && setConnecting(null)}
+          onMouseMove={(e) => {
+            if (!dragging) return;
+            const bounds = e.currentTarget.getBoundingClientRect();
+            setDragging({
+              ...dragging,
+              x: Math.max(0, e.clientX - bounds.left + e.currentTarget.scrollLeft - dragging.offsetX),
+              y: Math.max(0, e.clientY - bounds.top + e.currentTarget.scrollTop - dragging.offsetY)
+            });
+          }}
+          onMouseUp={() => {
+            if (!dragging) return;
+            updateNode(dragging.id, { x: dragging.x, y: dragging.y });
+            setDragging(null);
+          }}
+          onClick={() => {
+            setConnecting(null);
+            setSelectedNodeId(null);
+          }}
+        >
+          <svg className="absolute inset-0 pointer-events-none" style={{ width: 2000, height: 2000 }}>
+            {workflow.edges.map((edge) => {
+              const from = workflow.nodes.find((node) => node.id === edge.from);
+              const to = workflow.nodes.find((node) => node.id === edge.to);
+              if (!from || !to) return null;
+
+              const start = getPortPosition(nodePosition(from), edge.port);
+              const target = nodePosition(to);
+              const end = { x: target.x + NODE_WIDTH / 2, y: target.y };
+              const bend = Math.max(40, Math.abs(end.y - start.y) / 2);
+
+              return (
+                <path
+                  key={edge.id}
+                  d={`M ${start.x} ${start.y} C ${start.x} ${start.y + bend}, ${end.x} ${end.y - bend}, ${end.x} ${end.y}`}
+                  stroke={PORT_COLORS[edge.port]}
+                  strokeWidth={2}
+                  fill="none"
+                  className="pointer-events-auto cursor-pointer"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    updateWorkflow(workflow.id, { edges: workflow.edges.filter((other) => other.id !== edge.id) });
+                  }}
+                >
+                  <title>{`${edge.port} (click to remove)`}</title>
+                </path>
+              );
+            })}
+          </svg>
+
+          {workflow.nodes.map((original) => {
+            const node = nodePosition(original);
+            const { icon: Icon, color, label } = NODE_TYPES[node.type];
+
+            return (
+              <div
+                key={node.id}
+                className={`absolute bg-gray-800 border-2 rounded-lg shadow-lg select-none ${color} ${
+                  selectedNodeId === node.id ? 'ring-2 ring-blue-400' : ''
+                } ${connecting ? 'cursor-crosshair' : 'cursor-move'}`}
+                style={{ left: node.x, top: node.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+                onMouseDown={(e) => {
+                  if (connecting || e.button !== 0) return;
+                  const bounds = e.currentTarget.getBoundingClientRect();
+                  setDragging({ id: node.id, offsetX: e.clientX - bounds.left, offsetY: e.clientY - bounds.top, x: node.x, y: node.y });
+                }}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (connecting) {
+                    connect(node.id);
+                  } else {
+                    setSelectedNodeId(node.id);
+                  }
+                }}
+              >
+                <div className="flex items-center gap-2 px-3 pt-2">
+                  <Icon className="w-4 h-4 text-gray-300 flex-shrink-0" />
+                  <span className="text-sm font-medium truncate">{node.label || label}</span>
+                </div>
+                <div className="px-3 text-xs text-gray-400 truncate font-mono">{describeNode(node)}</div>
+
+                {WORKFLOW_PORTS[node.type].map((port) => {
+                  const position = getPortPosition(node, port);
+                  return (
+                    <button
+                      key={port}
+                      title={`Connect ${port}`}
+                      onMouseDown={(e) => e.stopPropagation()}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setConnecting({ from: node.id, port });
+                      }}
+                      className="absolute -translate-x-1/2 translate-y-1/2 px-1.5 rounded-full text-[10px] leading-4 text-white border border-gray-900 hover:scale-110 transition-transform"
+                      style={{ left: position.x - node.x, bottom: 0, backgroundColor: PORT_COLORS[port] }}
+                    >
+                      {port}
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Inspector */}
+      <div className="w-80 border-l border-gray-700 bg-gray-800 p-4 overflow-y-auto space-y-6">
+        {selectedNode ? (
+          <NodeInspector
+            key={selectedNode.id}
+            node={selectedNode}
+            actionNames={actionNames}
+            onChange={(updates) => updateNode(selectedNode.id, updates)}
+            onDelete={() => deleteNode(selectedNode.id)}
+          />
+        ) : (
+          <>
+            <Field label="Description">
+              <textarea
+                value={workflow.description || ''}
+                onChange={(e) => updateWorkflow(workflow.id, { description: e.target.value })}
+                rows={3}
+                className={`${inputClass} resize-none`}
+              />
+            </Field>
+            <p className="text-xs text-gray-400">
+              Steps share <span className="font-mono">vars</span>; the values passed to <span className="font-mono">run()</span> are in <span className="font-mono">params</span>. Run it from a widget event or with <span className="font-mono">{`{{ actions.${workflow.name}.run() }}`}</span>.
+            </p>
+          </>
+        )}
+
+        {problems.length > 0 && (
+          <div className="space-y-1">
+            {problems.map((problem) => (
+              <div key={problem} className="flex items-start gap-2 text-xs text-yellow-400">
+                <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                {problem}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {lastRun && (
+          <div>
+            <h4 className={`text-sm font-medium mb-1 ${lastRun.success ? 'text-green-400' : 'text-red-400'}`}>
+              {lastRun.success ? 'Last run succeeded' : `Last run failed: ${lastRun.error}`}
+            </h4>
+            <pre className="text-xs bg-gray-900 rounded p-2 overflow-auto max-h-64">{JSON.stringify(lastRun.data, null, 2)}</pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const WorkflowList: React.FC<{
+  workflows: Workflow[];
+  selectedId?: string;
+  onAdd: () => void;
+  onSelect: (workflow: Workflow) => void;
+  onDelete: (id: string) => void;
+  onDuplicate: (id: string) => void;
+}> = ({ workflows, selectedId, onAdd, onSelect, onDelete, onDuplicate }) => (
+  <div className="w-64 border-r border-gray-700 bg-gray-800 flex flex-col">
+    <div className="h-12 border-b border-gray-700 flex items-center justify-between px-4">
+      <h3 className="font-medium">Workflows</h3>
+      <button
+        onClick={onAdd}
+        className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+    </div>
+
+    <div className="p-4 space-y-2 overflow-y-auto">
+      {workflows.map((workflow) => (
+        <div
+          key={workflow.id}
+          className={`group flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-all ${
+            selectedId === workflow.id ? 'bg-blue-600 text-white' : 'hover:bg-gray-700 text-gray-300'
+          }`}
+          onClick={() => onSelect(workflow)}
+        >
+          <WorkflowIcon className="w-4 h-4 flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="text-sm font-medium font-mono truncate">{workflow.name}</div>
+            <div className="text-xs opacity-75">{workflow.nodes.length} nodes</div>
+          </div>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onDuplicate(workflow.id);
+            }}
+            className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-600 rounded transition-all"
+          >
+            <Copy className="w-3 h-3" />
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete(workflow.id);
+            }}
+            className="opacity-0 group-hover:opacity-100 p-1 hover:bg-red-600 rounded transition-all text-red-400"
+          >
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      {workflows.length === 0 && (
+        <div className="text-center py-8 text-gray-400">
+          <WorkflowIcon className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p className="text-sm">No workflows yet</p>
+          <button onClick={onAdd} className="text-blue-400 hover:text-blue-300 text-sm mt-1">
+            Create your first workflow
+          </button>
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+function describeNode(node: WorkflowNode): string {
+  const { config } = node;
+  switch (node.type) {
+    case 'action':
+      return String(config.actionId || INLINE_ACTION_LABELS[config.actionType as ActionDefinition['type']] || '');
+    case 'condition':
+      return String(config.expression || '');
+    case 'loop':
+      return `${config.itemVariable || 'item'} of ${config.items || '…'}`;
+    case 'delay':
+      return `${Number(config.ms) || 0} ms`;
+    case 'setVariable':
+      return `vars.${config.name || '…'}`;
+    default:
+      return '';
+  }
+}
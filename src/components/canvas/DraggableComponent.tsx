@@ -15,11 +15,28 @@ export const DraggableComponent: React.FC<DraggableComponentProps> = ({
   isSelected, 
   onSelect 
 }) => {
-  const { updateComponent, snapToGrid, gridSize } = useAppStore();
+  const { updateComponent, snapToGrid, gridSize, beginTransaction, commitTransaction } = useAppStore();
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const componentRef = useRef<HTMLDivElement>(null);
+  // A drag or resize is one undo step, committed on mouseup or on unmount
+  const gestureOpen = useRef(false);
+  const removeResizeListeners = useRef<(() => void) | null>(null);
+
+  const beginGesture = () => {
+    if (!gestureOpen.current) {
+      gestureOpen.current = true;
+      beginTransaction();
+    }
+  };
+
+  const endGesture = () => {
+    if (gestureOpen.current) {
+      gestureOpen.current = false;
+      commitTransaction();
+    }
+  };
 
   const [{ isDragSource }, drag] = useDrag({
     type: 'existing-component',
@@ -37,6 +54,7 @@ export const DraggableComponent: React.FC<DraggableComponentProps> = ({
   const handleMouseDown = (e: React.MouseEvent) => {
     if (e.target === componentRef.current || (e.target as HTMLElement).closest('.component-content')) {
       onSelect();
+      beginGesture();
       setIsDragging(true);
       setDragStart({
         x: e.clientX - component.x,
@@ -58,6 +76,7 @@ export const DraggableComponent: React.FC<DraggableComponentProps> = ({
 
   const handleMouseUp = () => {
     setIsDragging(false);
+    endGesture();
   };
 
   React.useEffect(() => {
@@ -71,11 +90,22 @@ export const DraggableComponent: React.FC<DraggableComponentProps> = ({
     }
   }, [isDragging, dragStart, isResizing]);
 
+  React.useEffect(() => () => {
+    // Unmounted mid-gesture (page switch, delete, undo): close the transaction
+    // so later edits are recorded
+    removeResizeListeners.current?.();
+    if (gestureOpen.current) {
+      gestureOpen.current = false;
+      useAppStore.getState().commitTransaction();
+    }
+  }, []);
+
   const handleResize = (direction: string, e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
     
     setIsResizing(true);
+    beginGesture();
     const startX = e.clientX;
     const startY = e.clientY;
     const startWidth = component.width;
@@ -117,14 +147,21 @@ export const DraggableComponent: React.FC<DraggableComponentProps> = ({
       });
     };
 
-    const handleMouseUp = () => {
-      setIsResizing(false);
+    const removeListeners = () => {
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
+      removeResizeListeners.current = null;
+    };
+
+    const handleMouseUp = () => {
+      setIsResizing(false);
+      endGesture();
+      removeListeners();
     };
 
     document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('mouseup', handleMouseUp);
+    removeResizeListeners.current = removeListeners;
   };
 
   return (
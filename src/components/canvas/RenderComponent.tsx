@@ -1,5 +1,5 @@
 import React from 'react';
-import { ComponentData } from '../../types';
+import { ComponentData, WidgetState } from '../../types';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { Text } from '../ui/Text';
@@ -12,15 +12,23 @@ import { ModalComponent } from '../ui/Modal';
 import { Tabs } from '../ui/Tabs';
 import { Form } from '../ui/Form';
 import { DatePicker } from '../ui/DatePicker';
+import { ROW_ACTION_EVENT } from '../../engine/ComponentEvents';
 
 interface RenderComponentProps {
   component: ComponentData;
   isPreview?: boolean;
+  // Receives the widget's runtime state (value, selectedRow, ...) while running
+  onStateChange?: (state: WidgetState) => void;
+  // Fires the component's declared events (see ComponentEvents) while running;
+  // resolves to false when one of the event's actions failed
+  onEvent?: (event: string, payload?: Record<string, unknown>) => Promise<boolean> | void;
 }
 
 export const RenderComponent: React.FC<RenderComponentProps> = ({ 
   component, 
-  isPreview = false 
+  isPreview = false,
+  onStateChange,
+  onEvent
 }) => {
   // Apply custom CSS if provided
   const customStyle = component.customCSS ? {
@@ -45,25 +53,50 @@ export const RenderComponent: React.FC<RenderComponentProps> = ({
 
   switch (component.type) {
     case 'button':
-      return <Button {...componentProps} />;
+      return <Button {...componentProps} onClick={() => onEvent?.('onClick')} />;
     
     case 'input':
-      return <Input {...componentProps} />;
+      return (
+        <Input
+          {...componentProps}
+          onChange={(value) => onEvent?.('onChange', { value })}
+          onStateChange={onStateChange}
+        />
+      );
     
     case 'text':
       return <Text {...componentProps} />;
     
     case 'image':
-      return <Image {...componentProps} />;
+      return <Image {...componentProps} onClick={() => onEvent?.('onClick')} />;
     
     case 'table':
-      return <Table {...componentProps} />;
+      return (
+        <Table
+          {...componentProps}
+          onRowSelected={(row, rowIndex) => onEvent?.('onRowSelected', { row, rowIndex })}
+          onRowAction={(actionIndex, row, rowIndex) => onEvent?.(ROW_ACTION_EVENT, { actionIndex, row, rowIndex })}
+          onStateChange={onStateChange}
+        />
+      );
     
     case 'select':
-      return <Select {...componentProps} />;
+      return (
+        <Select
+          {...componentProps}
+          onChange={(value) => onEvent?.('onChange', { value })}
+          onStateChange={onStateChange}
+        />
+      );
     
     case 'checkbox':
-      return <Checkbox {...componentProps} />;
+      return (
+        <Checkbox
+          {...componentProps}
+          onChange={(checked) => onEvent?.('onChange', { value: checked, checked })}
+          onStateChange={onStateChange}
+        />
+      );
     
     case 'customfunction':
       return <CustomFunction {...componentProps} />;
@@ -72,13 +105,25 @@ export const RenderComponent: React.FC<RenderComponentProps> = ({
       return <ModalComponent {...componentProps} />;
 
     case 'tabs':
-      return <Tabs {...componentProps} />;
+      return <Tabs {...componentProps} onTabChange={(tabId) => onEvent?.('onTabChange', { tabId })} />;
 
     case 'form':
-      return <Form {...componentProps} />;
+      return (
+        <Form
+          {...componentProps}
+          onSubmit={(values) => onEvent?.('onSubmit', { values })}
+          onStateChange={onStateChange}
+        />
+      );
 
     case 'datepicker':
-      return <DatePicker {...componentProps} />;
+      return (
+        <DatePicker
+          {...componentProps}
+          onChange={(value) => onEvent?.('onChange', { value })}
+          onStateChange={onStateChange}
+        />
+      );
 
     default:
       return (
@@ -0,0 +1,50 @@
+import React from 'react';
+import { CachePolicy } from '../../types';
+
+interface CacheSettingsProps {
+  cache?: CachePolicy;
+  onChange: (cache: CachePolicy | undefined) => void;
+}
+
+const inputClass = 'mt-1 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded text-white text-sm';
+
+/**
+ * TTL and stale-while-revalidate fields for an API or query. A TTL of 0
+ * turns caching off.
+ */
+export const CacheSettings: React.FC<CacheSettingsProps> = ({ cache, onChange }) => {
+  const setTtl = (ttl: number) =>
+    onChange(ttl > 0 ? { ...cache, ttl } : undefined);
+
+  const setStale = (staleWhileRevalidate: number) =>
+    cache && onChange({ ...cache, staleWhileRevalidate: staleWhileRevalidate || undefined });
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <label className="text-xs text-gray-400">
+        Cache for (ms)
+        <input
+          type="number"
+          min={0}
+          value={cache?.ttl ?? 0}
+          onChange={(e) => setTtl(Math.max(0, Number(e.target.value) || 0))}
+          className={inputClass}
+        />
+      </label>
+      <label className="text-xs text-gray-400">
+        Then serve stale while refreshing (ms)
+        <input
+          type="number"
+          min={0}
+          value={cache?.staleWhileRevalidate ?? 0}
+          disabled={!cache}
+          onChange={(e) => setStale(Math.max(0, Number(e.target.value) || 0))}
+          className={`${inputClass} disabled:opacity-50`}
+        />
+      </label>
+      <p className="col-span-2 text-xs text-gray-500">
+        Runs with the same request reuse the cached result. Running from the editor always makes a fresh request.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,331 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { useAppStore } from '../../store/useAppStore';
+import { ComponentData, ConfirmationConfig, EventAction } from '../../types';
+import { ActionDefinition } from '../../engine/ActionManager';
+import { createEventAction, getComponentEvents, INLINE_ACTION_DEFAULTS, INLINE_ACTION_LABELS } from '../../engine/ComponentEvents';
+
+type InlineType = ActionDefinition['type'];
+
+const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded text-xs focus:outline-none focus:border-blue-500';
+
+// Objects and arrays are edited as JSON and only saved once they parse
+const JsonField: React.FC<{ value: unknown; onChange: (value: unknown) => void }> = ({ value, onChange }) => {
+  const [draft, setDraft] = useState(JSON.stringify(value ?? {}, null, 2));
+  const [error, setError] = useState(false);
+
+  return (
+    <textarea
+      value={draft}
+      rows={3}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        try {
+          onChange(JSON.parse(draft));
+          setError(false);
+        } catch {
+          setError(true);
+        }
+      }}
+      className={`${inputClass} font-mono resize-none ${error ? 'border-red-500' : ''}`}
+    />
+  );
+};
+
+interface StepListProps {
+  steps: EventAction[];
+  actionNames: string[];
+  onChange: (steps: EventAction[]) => void;
+}
+
+const StepList: React.FC<StepListProps> = ({ steps, actionNames, onChange }) => {
+  const updateStep = (index: number, step: EventAction) =>
+    onChange(steps.map((s, i) => (i === index ? step : s)));
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps];
+    const [step] = next.splice(index, 1);
+    next.splice(index + offset, 0, step);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {steps.map((step, index) => (
+        <div key={step.id} className="border border-gray-200 rounded p-2 space-y-2 bg-gray-50">
+          <div className="flex items-center gap-1">
+            <span className="text-xs text-gray-400 w-4">{index + 1}</span>
+            <StepActionSelect
+              step={step}
+              actionNames={actionNames}
+              onChange={(updated) => updateStep(index, updated)}
+            />
+            <button
+              onClick={() => moveStep(index, -1)}
+              disabled={index === 0}
+              className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+              title="Move up"
+            >
+              <ArrowUp className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => moveStep(index, 1)}
+              disabled={index === steps.length - 1}
+              className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+              title="Move down"
+            >
+              <ArrowDown className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => onChange(steps.filter((_, i) => i !== index))}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Remove"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+
+          <StepConfig step={step} onChange={(updated) => updateStep(index, updated)} />
+          <StepConfirmation step={step} onChange={(updated) => updateStep(index, updated)} />
+
+          {(['onSuccess', 'onError'] as const).map((branch) => (
+            <div key={branch} className="pl-3 border-l-2 border-gray-200 space-y-1">
+              <div className="flex items-center justify-between">
+                <span className={`text-xs font-medium ${branch === 'onSuccess' ? 'text-green-700' : 'text-red-700'}`}>
+                  {branch === 'onSuccess' ? 'On success' : 'On error'}
+                </span>
+                <button
+                  onClick={() =>
+                    updateStep(index, {
+                      ...step,
+                      [branch]: [...(step[branch] || []), createEventAction({ type: 'showToast', config: { ...INLINE_ACTION_DEFAULTS.showToast } })]
+                    })
+                  }
+                  className="p-0.5 text-gray-400 hover:text-blue-600"
+                  title="Add action"
+                >
+                  <Plus className="w-3 h-3" />
+                </button>
+              </div>
+              {(step[branch]?.length ?? 0) > 0 && (
+                <StepList
+                  steps={step[branch] || []}
+                  actionNames={actionNames}
+                  onChange={(branchSteps) => updateStep(index, { ...step, [branch]: branchSteps })}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const StepActionSelect: React.FC<{
+  step: EventAction;
+  actionNames: string[];
+  onChange: (step: EventAction) => void;
+}> = ({ step, actionNames, onChange }) => (
+  <select
+    value={step.actionId ? `action:${step.actionId}` : `type:${step.type}`}
+    onChange={(e) => {
+      const separator = e.target.value.indexOf(':');
+      const kind = e.target.value.slice(0, separator);
+      const value = e.target.value.slice(separator + 1);
+      const { onSuccess, onError } = step;
+      onChange(
+        kind === 'action'
+          ? { id: step.id, actionId: value, onSuccess, onError }
+          : {
+              id: step.id,
+              type: value as InlineType,
+              config: { ...INLINE_ACTION_DEFAULTS[value as InlineType] },
+              onSuccess,
+              onError
+            }
+      );
+    }}
+    className={`${inputClass} flex-1`}
+  >
+    {step.actionId && !actionNames.includes(step.actionId) && (
+      <option value={`action:${step.actionId}`}>{step.actionId} (missing)</option>
+    )}
+    {actionNames.length > 0 && (
+      <optgroup label="Run API, query or workflow">
+        {actionNames.map((name) => (
+          <option key={name} value={`action:${name}`}>{name}</option>
+        ))}
+      </optgroup>
+    )}
+    <optgroup label="Action">
+      {Object.entries(INLINE_ACTION_LABELS).map(([type, label]) => (
+        <option key={type} value={`type:${type}`}>{label}</option>
+      ))}
+    </optgroup>
+  </select>
+);
+
+const StepConfig: React.FC<{ step: EventAction; onChange: (step: EventAction) => void }> = ({ step, onChange }) => {
+  // Registered actions take run params; inline actions are configured in place
+  const field = step.actionId ? 'params' : 'config';
+  const values = step[field] || {};
+  const entries = Object.entries(step.actionId ? { params: values } : values);
+
+  if (entries.length === 0) return null;
+
+  const setValue = (key: string, value: unknown) =>
+    onChange(step.actionId ? { ...step, params: value as Record<string, unknown> } : { ...step, config: { ...values, [key]: value } });
+
+  return (
+    <div className="space-y-1">
+      {entries.map(([key, value]) => (
+        <div key={key}>
+          <label className="block text-xs text-gray-500 mb-0.5">{key}</label>
+          {typeof value === 'string' ? (
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => setValue(key, e.target.value)}
+              className={`${inputClass} font-mono`}
+              placeholder="Text or {{ expression }}"
+            />
+          ) : (
+            <JsonField value={value} onChange={(parsed) => setValue(key, parsed)} />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const confirmationFields: { key: 'title' | 'message' | 'confirmLabel' | 'cancelLabel'; placeholder: string }[] = [
+  { key: 'title', placeholder: 'Title' },
+  { key: 'message', placeholder: 'Message, e.g. Delete {{ params.row.name }}?' },
+  { key: 'confirmLabel', placeholder: 'Confirm button (Confirm)' },
+  { key: 'cancelLabel', placeholder: 'Cancel button (Cancel)' }
+];
+
+const StepConfirmation: React.FC<{ step: EventAction; onChange: (step: EventAction) => void }> = ({ step, onChange }) => {
+  const { confirm } = step;
+  const setConfirm = (updates: Partial<ConfirmationConfig>) =>
+    onChange({ ...step, confirm: { ...confirm, ...updates } });
+
+  return (
+    <div className="space-y-1">
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={Boolean(confirm)}
+          onChange={(e) => onChange({ ...step, confirm: e.target.checked ? { message: 'Are you sure?' } : undefined })}
+        />
+        Ask for confirmation
+      </label>
+      {confirm && (
+        <div className="pl-5 space-y-1">
+          {confirmationFields.map(({ key, placeholder }) => (
+            <input
+              key={key}
+              type="text"
+              value={confirm[key] || ''}
+              onChange={(e) => setConfirm({ [key]: e.target.value || undefined })}
+              placeholder={placeholder}
+              className={inputClass}
+            />
+          ))}
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={Boolean(confirm.destructive)}
+              onChange={(e) => setConfirm({ destructive: e.target.checked || undefined })}
+            />
+            Destructive
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ActionStepsEditorProps {
+  label: string;
+  name?: string;
+  description?: React.ReactNode;
+  steps: EventAction[];
+  onChange: (steps: EventAction[]) => void;
+}
+
+/**
+ * One list of action steps with its heading and "Add action" button. Used
+ * for component events and for page lifecycle hooks.
+ */
+export const ActionStepsEditor: React.FC<ActionStepsEditorProps> = ({ label, name, description, steps, onChange }) => {
+  const { apis, sqlQueries, workflows } = useAppStore();
+  const actionNames = [
+    ...apis.map((api) => api.name),
+    ...sqlQueries.map((query) => query.name),
+    ...workflows.map((workflow) => workflow.name)
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <div>
+          <span className="text-sm font-medium text-gray-700">{label}</span>
+          {name && <span className="ml-2 text-xs text-gray-400 font-mono">{name}</span>}
+        </div>
+        <button
+          onClick={() =>
+            onChange([...steps, createEventAction({ type: 'showAlert', config: { ...INLINE_ACTION_DEFAULTS.showAlert } })])
+          }
+          className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+        >
+          <Plus className="w-3 h-3" />
+          Add action
+        </button>
+      </div>
+      {description && <p className="text-xs text-gray-500 mb-1">{description}</p>}
+      {steps.length > 0 ? (
+        <StepList steps={steps} actionNames={actionNames} onChange={onChange} />
+      ) : (
+        <p className="text-xs text-gray-400">No actions</p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Lists the events the component type declares and the actions each runs.
+ */
+export const EventsEditor: React.FC<{ component: ComponentData }> = ({ component }) => {
+  const { updateComponent } = useAppStore();
+  const declarations = getComponentEvents(component.type);
+
+  if (declarations.length === 0) {
+    return <p className="text-sm text-gray-500">This component has no events.</p>;
+  }
+
+  const setSteps = (event: string, steps: EventAction[]) =>
+    updateComponent(component.id, { events: { ...component.events, [event]: steps } });
+
+  return (
+    <div className="space-y-4">
+      {declarations.map((declaration) => (
+        <ActionStepsEditor
+          key={declaration.name}
+          label={declaration.label}
+          name={declaration.name}
+          description={
+            declaration.payload && (
+              <>
+                Actions receive <code className="font-mono">{declaration.payload}</code> as params
+              </>
+            )
+          }
+          steps={component.events?.[declaration.name] || []}
+          onChange={(next) => setSteps(declaration.name, next)}
+        />
+      ))}
+    </div>
+  );
+};
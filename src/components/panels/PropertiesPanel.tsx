@@ -1,6 +1,49 @@
 import React, { useState } from 'react';
 import { useAppStore } from '../../store/useAppStore';
-import { Settings, Code, Palette, Eye, EyeOff } from 'lucide-react';
+import { Settings, Code, Palette, Eye, EyeOff, Zap } from 'lucide-react';
+import { ComponentData } from '../../types';
+import { EventsEditor } from './EventsEditor';
+
+// Draft name, committed on blur or Enter so each rename rewrites bindings once
+const WidgetNameField: React.FC<{ component: ComponentData }> = ({ component }) => {
+  const renameComponent = useAppStore((state) => state.renameComponent);
+  const [draft, setDraft] = useState(component.name);
+  const [error, setError] = useState<string | null>(null);
+
+  const commit = () => {
+    const name = draft.trim();
+    const renameError = renameComponent(component.id, name);
+    setError(renameError);
+    if (!renameError) setDraft(name);
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+      <input
+        type="text"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') {
+            setDraft(component.name);
+            setError(null);
+          }
+        }}
+        className={`w-full px-3 py-2 border rounded-md text-sm font-mono focus:outline-none ${
+          error ? 'border-red-500' : 'border-gray-300 focus:border-blue-500'
+        }`}
+      />
+      {error ? (
+        <p className="mt-1 text-xs text-red-500">{error}</p>
+      ) : (
+        <p className="mt-1 text-xs text-gray-500">{`Use {{ widgets.${component.name} }} in bindings`}</p>
+      )}
+    </div>
+  );
+};
 
 export const PropertiesPanel: React.FC = () => {
   const { selectedComponent, updateComponent } = useAppStore();
@@ -509,11 +552,14 @@ export const PropertiesPanel: React.FC = () => {
         </div>
       </div>
 
+      <WidgetNameField key={`${selectedComponent.id}:${selectedComponent.name}`} component={selectedComponent} />
+
       {/* Tabs */}
       <div className="flex border-b border-gray-200 mb-4">
         {[
           { id: 'properties', label: 'Properties', icon: Settings },
           { id: 'style', label: 'Style', icon: Palette },
+          { id: 'actions', label: 'Events', icon: Zap },
           { id: 'code', label: 'Code', icon: Code }
         ].map((tab) => {
           const Icon = tab.icon;
@@ -538,6 +584,7 @@ export const PropertiesPanel: React.FC = () => {
       <div className="space-y-4">
         {activeTab === 'properties' && renderComponentProperties()}
         {activeTab === 'style' && renderStyleEditor()}
+        {activeTab === 'actions' && <EventsEditor key={selectedComponent.id} component={selectedComponent} />}
         {activeTab === 'code' && renderCodeEditor()}
       </div>
     </div>
@@ -56,39 +56,14 @@ export const Button: React.FC<ButtonComponentProps> = ({
 
   const handleClick = () => {
     if (!isPreview || props.disabled || props.loading) return;
-    
-    // Execute action based on configuration
-    if (props.actions?.onClick) {
-      switch (props.actions.onClick.type) {
-        case 'alert':
-          alert(props.actions.onClick.params?.message || 'Button clicked!');
-          break;
-        case 'js':
-          if (props.actions.onClick.target) {
-            try {
-              // Execute custom JavaScript
-              new Function(props.actions.onClick.target)();
-            } catch (error) {
-              console.error('Error executing custom JS:', error);
-            }
-          }
-          break;
-        case 'navigate':
-          if (props.actions.onClick.target) {
-            window.open(props.actions.onClick.target, '_blank');
-          }
-          break;
-        case 'copy':
-          if (props.actions.onClick.params?.text) {
-            navigator.clipboard.writeText(props.actions.onClick.params.text);
-          }
-          break;
-        default:
-          onClick?.();
-      }
-    } else {
-      onClick?.();
+
+    // A `{{ }}` onClick handler takes precedence over the event's actions
+    if (props.onClick) {
+      props.onClick();
+      return;
     }
+
+    onClick?.();
   };
 
   if (!props.visible) return null;
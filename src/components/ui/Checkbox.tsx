@@ -1,19 +1,29 @@
-import React from 'react';
-import { ComponentData, CheckboxProps } from '../../types';
+import React, { useEffect, useState } from 'react';
+import { ComponentData, CheckboxProps, CheckboxState } from '../../types';
+import { useWidgetState } from './useWidgetState';
 import { Check, Minus } from 'lucide-react';
 
 interface CheckboxComponentProps {
   component: ComponentData;
   isPreview?: boolean;
   onChange?: (checked: boolean) => void;
+  onStateChange?: (state: CheckboxState) => void;
 }
 
 export const Checkbox: React.FC<CheckboxComponentProps> = ({ 
   component, 
   isPreview = false, 
-  onChange 
+  onChange,
+  onStateChange
 }) => {
   const props = component.props as CheckboxProps;
+  const [checked, setChecked] = useState(!!props.checked);
+
+  useEffect(() => {
+    setChecked(!!props.checked);
+  }, [props.checked]);
+
+  useWidgetState({ checked, value: checked }, onStateChange);
   
   const baseStyle = {
     width: '100%',
@@ -34,6 +44,7 @@ export const Checkbox: React.FC<CheckboxComponentProps> = ({
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!isPreview || props.disabled) return;
+    setChecked(e.target.checked);
     onChange?.(e.target.checked);
   };
 
@@ -47,7 +58,7 @@ export const Checkbox: React.FC<CheckboxComponentProps> = ({
         <div className="relative">
           <input
             type="checkbox"
-            checked={props.checked}
+            checked={checked}
             onChange={handleChange}
             disabled={!isPreview || props.disabled}
             className="sr-only"
@@ -57,20 +68,20 @@ export const Checkbox: React.FC<CheckboxComponentProps> = ({
             className={`
               ${sizeStyles.checkbox} border-2 rounded flex items-center justify-center
               transition-all duration-200
-              ${props.checked || props.indeterminate
+              ${checked || props.indeterminate
                 ? `bg-${props.color || 'blue'}-600 border-${props.color || 'blue'}-600`
                 : 'bg-white border-gray-300 hover:border-gray-400'
               }
               ${props.disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}
             `}
             style={{
-              backgroundColor: (props.checked || props.indeterminate) ? (props.color || '#3B82F6') : undefined,
-              borderColor: (props.checked || props.indeterminate) ? (props.color || '#3B82F6') : undefined,
+              backgroundColor: (checked || props.indeterminate) ? (props.color || '#3B82F6') : undefined,
+              borderColor: (checked || props.indeterminate) ? (props.color || '#3B82F6') : undefined,
             }}
           >
             {props.indeterminate ? (
               <Minus className="w-3 h-3 text-white" />
-            ) : props.checked ? (
+            ) : checked ? (
               <Check className="w-3 h-3 text-white" />
             ) : null}
           </div>
@@ -1,16 +1,29 @@
-import React, { useState } from 'react';
-import { ComponentData } from '../../types';
+import React, { useEffect, useState } from 'react';
+import { ComponentData, DatePickerState } from '../../types';
 import { Calendar, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useWidgetState } from './useWidgetState';
 
 interface DatePickerComponentProps {
   component: ComponentData;
   isPreview?: boolean;
+  onChange?: (value: string) => void;
+  onStateChange?: (state: DatePickerState) => void;
 }
 
-export const DatePicker: React.FC<DatePickerComponentProps> = ({ component, isPreview = false }) => {
-  const [selectedDate, setSelectedDate] = useState<Date | null>(
-    component.props.value ? new Date(component.props.value) : null
-  );
+// Values that aren't dates (free text, an unevaluated binding) leave the picker empty
+const parseDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export const DatePicker: React.FC<DatePickerComponentProps> = ({ component, isPreview = false, onChange, onStateChange }) => {
+  const [selectedDate, setSelectedDate] = useState<Date | null>(() => parseDate(component.props.value));
+
+  useEffect(() => {
+    setSelectedDate(parseDate(component.props.value));
+  }, [component.props.value]);
+
   const [isOpen, setIsOpen] = useState(false);
   const [currentMonth, setCurrentMonth] = useState(new Date());
 
@@ -47,6 +60,7 @@ export const DatePicker: React.FC<DatePickerComponentProps> = ({ component, isPr
     );
     setSelectedDate(newDate);
     setIsOpen(false);
+    onChange?.(newDate.toISOString());
   };
 
   const goToPreviousMonth = () => {
@@ -70,6 +84,11 @@ export const DatePicker: React.FC<DatePickerComponentProps> = ({ component, isPr
       .replace('DD', day);
   };
 
+  useWidgetState({
+    value: selectedDate && !isNaN(selectedDate.getTime()) ? selectedDate.toISOString() : null,
+    formattedValue: formatDate(selectedDate)
+  }, onStateChange);
+
   const isToday = (day: number): boolean => {
     const today = new Date();
     return (
@@ -193,6 +212,7 @@ export const DatePicker: React.FC<DatePickerComponentProps> = ({ component, isPr
                     setSelectedDate(today);
                     setCurrentMonth(today);
                     setIsOpen(false);
+                    onChange?.(today.toISOString());
                   }}
                   className="w-full px-3 py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded transition-colors"
                 >
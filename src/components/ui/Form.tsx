@@ -1,5 +1,6 @@
 import React, { useState, FormEvent } from 'react';
-import { ComponentData } from '../../types';
+import { ComponentData, FormState } from '../../types';
+import { useWidgetState } from './useWidgetState';
 
 interface FormField {
   id: string;
@@ -22,13 +23,17 @@ interface FormField {
 interface FormComponentProps {
   component: ComponentData;
   isPreview?: boolean;
+  // Resolves to false when the submit actions failed, which keeps the values
+  onSubmit?: (values: Record<string, unknown>) => Promise<boolean> | void;
+  onStateChange?: (state: FormState) => void;
 }
 
-export const Form: React.FC<FormComponentProps> = ({ component, isPreview = false }) => {
+export const Form: React.FC<FormComponentProps> = ({ component, isPreview = false, onSubmit, onStateChange }) => {
   const fields: FormField[] = component.props.fields || [];
   const [formData, setFormData] = useState<Record<string, any>>({});
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
 
   const baseStyle = {
     width: '100%',
@@ -41,6 +46,7 @@ export const Form: React.FC<FormComponentProps> = ({ component, isPreview = fals
       ...prev,
       [fieldName]: value
     }));
+    setIsDirty(true);
 
     if (errors[fieldName]) {
       setErrors(prev => {
@@ -84,6 +90,13 @@ export const Form: React.FC<FormComponentProps> = ({ component, isPreview = fals
     return null;
   };
 
+  useWidgetState({
+    values: formData,
+    isValid: fields.every(field => !validateField(field, formData[field.name])),
+    isDirty,
+    isSubmitting
+  }, onStateChange);
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
 
@@ -102,16 +115,13 @@ export const Form: React.FC<FormComponentProps> = ({ component, isPreview = fals
     if (Object.keys(newErrors).length === 0) {
       setIsSubmitting(true);
 
-      if (isPreview && component.props.onSubmit) {
-        console.log('Form submitted:', formData);
-      }
+      const succeeded = isPreview ? (await onSubmit?.(formData)) !== false : true;
 
-      setTimeout(() => {
-        setIsSubmitting(false);
-        if (component.props.resetOnSuccess) {
-          setFormData({});
-        }
-      }, 1000);
+      setIsSubmitting(false);
+      if (succeeded && component.props.resetOnSuccess) {
+        setFormData({});
+        setIsDirty(false);
+      }
     }
   };
 
@@ -4,9 +4,10 @@ import { ComponentData, ImageProps } from '../../types';
 interface ImageComponentProps {
   component: ComponentData;
   isPreview?: boolean;
+  onClick?: () => void;
 }
 
-export const Image: React.FC<ImageComponentProps> = ({ component, isPreview = false }) => {
+export const Image: React.FC<ImageComponentProps> = ({ component, isPreview = false, onClick }) => {
   const props = component.props as ImageProps;
   const [imageError, setImageError] = useState(false);
   const [imageLoading, setImageLoading] = useState(true);
@@ -41,44 +42,8 @@ export const Image: React.FC<ImageComponentProps> = ({ component, isPreview = fa
   };
 
   const handleClick = () => {
-    if (!isPreview || !props.clickAction) return;
-
-    switch (props.clickAction.type) {
-      case 'navigate':
-        if (props.clickAction.target) {
-          window.open(props.clickAction.target, '_blank');
-        }
-        break;
-      case 'modal':
-        // Handle modal opening
-        console.log('Open modal:', props.clickAction.target);
-        break;
-      case 'js':
-        if (props.clickAction.target) {
-          try {
-            new Function(props.clickAction.target)();
-          } catch (error) {
-            console.error('Error executing custom JS:', error);
-          }
-        }
-        break;
-      case 'alert':
-        alert(props.clickAction.params?.message || 'Image clicked!');
-        break;
-      case 'copy':
-        if (props.clickAction.params?.text) {
-          navigator.clipboard.writeText(props.clickAction.params.text);
-        }
-        break;
-      case 'download':
-        if (props.src) {
-          const link = document.createElement('a');
-          link.href = props.src;
-          link.download = props.alt || 'image';
-          link.click();
-        }
-        break;
-    }
+    if (!isPreview) return;
+    onClick?.();
   };
 
   const handleImageLoad = () => {
@@ -93,7 +58,7 @@ export const Image: React.FC<ImageComponentProps> = ({ component, isPreview = fa
 
   if (!props.visible) return null;
 
-  const hasClickAction = props.clickAction && props.clickAction.type !== 'none';
+  const hasClickAction = (component.events?.onClick?.length ?? 0) > 0;
 
   return (
     <div style={baseStyle} className="relative overflow-hidden">
@@ -122,12 +87,6 @@ export const Image: React.FC<ImageComponentProps> = ({ component, isPreview = fa
           {imageError ? 'Failed to load image' : 'No image selected'}
         </div>
       )}
-      
-      {hasClickAction && isPreview && (
-        <div className="absolute top-2 right-2 bg-black bg-opacity-50 text-white text-xs px-2 py-1 rounded opacity-0 hover:opacity-100 transition-opacity">
-          Click to {props.clickAction.type}
-        </div>
-      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,19 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { ComponentData, InputProps } from '../../types';
+import { ComponentData, InputProps, InputState } from '../../types';
+import { useWidgetState } from './useWidgetState';
 
 interface InputComponentProps {
   component: ComponentData;
   isPreview?: boolean;
   onChange?: (value: string) => void;
+  onStateChange?: (state: InputState) => void;
 }
 
+const toText = (value: unknown) => (value === undefined || value === null ? '' : String(value));
+
 export const Input: React.FC<InputComponentProps> = ({ 
   component, 
   isPreview = false, 
-  onChange 
+  onChange,
+  onStateChange
 }) => {
   const props = component.props as InputProps;
-  const [value, setValue] = useState(props.value || '');
+  const [value, setValue] = useState(toText(props.value));
   const [isValid, setIsValid] = useState(true);
   const [errorMessage, setErrorMessage] = useState('');
   const [characterCount, setCharacterCount] = useState(0);
@@ -24,11 +29,18 @@ export const Input: React.FC<InputComponentProps> = ({
     ...component.style,
   };
 
+  // Bound values resolve after the first render and may change later
+  useEffect(() => {
+    setValue(toText(props.value));
+  }, [props.value]);
+
   useEffect(() => {
     validateInput(value);
     setCharacterCount(value.length);
   }, [value, props.validation]);
 
+  useWidgetState({ value, isValid }, onStateChange);
+
   const validateInput = (inputValue: string) => {
     let valid = true;
     let message = '';
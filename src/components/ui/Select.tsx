@@ -1,24 +1,28 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ComponentData, SelectProps } from '../../types';
+import { ComponentData, SelectProps, SelectState } from '../../types';
+import { useWidgetState } from './useWidgetState';
 import { ChevronDown, X, Search } from 'lucide-react';
 
 interface SelectComponentProps {
   component: ComponentData;
   isPreview?: boolean;
   onChange?: (value: string | string[]) => void;
+  onStateChange?: (state: SelectState) => void;
 }
 
+const toValues = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(String) : value !== undefined && value !== null && value !== '' ? [String(value)] : [];
+
 export const Select: React.FC<SelectComponentProps> = ({ 
   component, 
   isPreview = false, 
-  onChange 
+  onChange,
+  onStateChange
 }) => {
   const props = component.props as SelectProps;
   const [isOpen, setIsOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedValues, setSelectedValues] = useState<string[]>(
-    Array.isArray(props.value) ? props.value : props.value ? [props.value] : []
-  );
+  const [selectedValues, setSelectedValues] = useState<string[]>(toValues(props.value));
   const selectRef = useRef<HTMLDivElement>(null);
 
   const baseStyle = {
@@ -27,6 +31,11 @@ export const Select: React.FC<SelectComponentProps> = ({
     ...component.style,
   };
 
+  // Bound values resolve after the first render and may change later
+  useEffect(() => {
+    setSelectedValues(toValues(props.value));
+  }, [props.value]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (selectRef.current && !selectRef.current.contains(event.target as Node)) {
@@ -39,6 +48,11 @@ export const Select: React.FC<SelectComponentProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  useWidgetState({
+    value: props.multiple ? selectedValues : selectedValues[0] || '',
+    selectedOptions: props.options.filter(option => selectedValues.includes(option.value))
+  }, onStateChange);
+
   const filteredOptions = props.options.filter(option =>
     !props.searchable || 
     option.label.toLowerCase().includes(searchTerm.toLowerCase())
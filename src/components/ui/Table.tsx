@@ -1,13 +1,17 @@
 import React, { useState, useMemo } from 'react';
-import { ComponentData, TableProps } from '../../types';
+import { ComponentData, TableProps, TableState } from '../../types';
 import { ChevronUp, ChevronDown, Search, Filter, Download, RefreshCw } from 'lucide-react';
+import { useWidgetState } from './useWidgetState';
 
 interface TableComponentProps {
   component: ComponentData;
   isPreview?: boolean;
+  onRowSelected?: (row: unknown, rowIndex: number) => void;
+  onRowAction?: (actionIndex: number, row: unknown, rowIndex: number) => void;
+  onStateChange?: (state: TableState) => void;
 }
 
-export const Table: React.FC<TableComponentProps> = ({ component, isPreview = false }) => {
+export const Table: React.FC<TableComponentProps> = ({ component, isPreview = false, onRowSelected, onRowAction, onStateChange }) => {
   const props = component.props as TableProps;
   const [currentPage, setCurrentPage] = useState(1);
   const [sortColumn, setSortColumn] = useState<string | null>(props.sorting.defaultSort || null);
@@ -65,6 +69,18 @@ export const Table: React.FC<TableComponentProps> = ({ component, isPreview = fa
     return sortedData.slice(startIndex, startIndex + props.pagination.pageSize);
   }, [sortedData, currentPage, props.pagination]);
 
+  const selectedIndexes = [...selectedRows].sort((a, b) => a - b);
+
+  useWidgetState({
+    selectedRow: selectedIndexes.length > 0 ? paginatedData[selectedIndexes[0]] ?? null : null,
+    selectedRows: selectedIndexes.map((index) => paginatedData[index]).filter((row) => row !== undefined),
+    selectedRowIndex: selectedIndexes.length > 0 ? selectedIndexes[0] : null,
+    pageNo: currentPage,
+    searchText: searchTerm,
+    sortColumn,
+    sortDirection
+  }, onStateChange);
+
   const totalPages = Math.ceil(sortedData.length / props.pagination.pageSize);
 
   const handleSort = (columnKey: string) => {
@@ -95,6 +111,9 @@ export const Table: React.FC<TableComponentProps> = ({ component, isPreview = fa
     }
     
     setSelectedRows(newSelected);
+    if (newSelected.has(index)) {
+      onRowSelected?.(paginatedData[index], index);
+    }
   };
 
   const handleSelectAll = (checked: boolean) => {
@@ -306,10 +325,7 @@ export const Table: React.FC<TableComponentProps> = ({ component, isPreview = fa
                         <button
                           key={actionIndex}
                           className="text-blue-600 hover:text-blue-800 text-sm font-medium hover:bg-blue-50 px-2 py-1 rounded transition-colors"
-                          onClick={() => {
-                            // Handle row action
-                            console.log('Row action:', action, row);
-                          }}
+                          onClick={() => onRowAction?.(actionIndex, row, index)}
                         >
                           {action.type}
                         </button>
@@ -12,9 +12,10 @@ interface Tab {
 interface TabsComponentProps {
   component: ComponentData;
   isPreview?: boolean;
+  onTabChange?: (tabId: string) => void;
 }
 
-export const Tabs: React.FC<TabsComponentProps> = ({ component, isPreview = false }) => {
+export const Tabs: React.FC<TabsComponentProps> = ({ component, isPreview = false, onTabChange }) => {
   const tabs: Tab[] = component.props.tabs || [
     { id: 'tab1', label: 'Tab 1', content: 'Content for tab 1' },
     { id: 'tab2', label: 'Tab 2', content: 'Content for tab 2' },
@@ -37,6 +38,12 @@ export const Tabs: React.FC<TabsComponentProps> = ({ component, isPreview = fals
 
   const currentTab = tabs.find(t => t.id === activeTab);
 
+  const selectTab = (tab: Tab) => {
+    if (tab.disabled || tab.id === activeTab) return;
+    setActiveTab(tab.id);
+    onTabChange?.(tab.id);
+  };
+
   const alignmentClasses = {
     start: 'justify-start',
     center: 'justify-center',
@@ -53,7 +60,7 @@ export const Tabs: React.FC<TabsComponentProps> = ({ component, isPreview = fals
           return (
             <button
               key={tab.id}
-              onClick={() => !tab.disabled && setActiveTab(tab.id)}
+              onClick={() => selectTab(tab)}
               disabled={tab.disabled}
               className={`
                 relative px-4 py-3 text-sm font-medium transition-all duration-200
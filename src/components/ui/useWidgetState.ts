@@ -0,0 +1,17 @@
+import { useEffect, useRef } from 'react';
+import { WidgetState } from '../../types';
+
+/**
+ * Publishes a widget's runtime state to its `onStateChange` handler on mount
+ * and whenever the state's content changes.
+ */
+export function useWidgetState<T extends WidgetState>(state: T, onStateChange?: (state: T) => void) {
+  const latest = useRef({ state, onStateChange });
+  latest.current = { state, onStateChange };
+
+  const key = JSON.stringify(state);
+
+  useEffect(() => {
+    latest.current.onStateChange?.(latest.current.state);
+  }, [key]);
+}
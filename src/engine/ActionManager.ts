@@ -1,4 +1,6 @@
 import { expressionEngine } from './ExpressionEngine';
+import { toastManager } from './ToastManager';
+import type { CachePolicy, ConfirmationConfig, EventAction, Workflow } from '../types';
 
 export interface ActionResult {
   success: boolean;
@@ -8,41 +10,146 @@ export interface ActionResult {
 
 export interface ActionDefinition {
   id: string;
-  type: 'http' | 'graphql' | 'updateWidget' | 'navigate' | 'openModal' | 'closeModal' | 'showAlert' | 'showToast' | 'localStorage' | 'copyToClipboard' | 'downloadFile' | 'runJS';
+  type: 'http' | 'sql' | 'graphql' | 'workflow' | 'updateWidget' | 'navigate' | 'openModal' | 'closeModal' | 'showAlert' | 'showToast' | 'localStorage' | 'setStore' | 'clearStore' | 'persistStore' | 'invalidateCache' | 'copyToClipboard' | 'downloadFile' | 'runJS';
   config: Record<string, any>;
+  // Set for actions generated from an ApiEndpoint, SqlQuery or Workflow in the store
+  source?: { type: 'api' | 'query' | 'workflow'; id: string };
+  // Only applies to http, sql and graphql actions
+  cache?: CachePolicy;
 }
 
 export type ActionListener = (result: ActionResult) => void;
 
+/**
+ * What `{{ actions.<id> }}` exposes to expressions.
+ */
+export interface ActionState {
+  data: unknown;
+  error: string | null;
+  isLoading: boolean;
+  lastRunAt: number | null;
+  run: (params?: Record<string, unknown>) => Promise<ActionResult>;
+}
+
+export type ActionsChangeListener = (actionId: string) => void;
+
+/**
+ * Connects the `store` actions to the app's global state.
+ */
+export interface StoreAdapter {
+  get: () => Record<string, unknown>;
+  set: (key: string, value: unknown) => void;
+  clear: (keys?: string[]) => void;
+}
+
+export type StoreStorage = 'local' | 'session';
+
+interface CacheEntry {
+  result: ActionResult;
+  storedAt: number;
+}
+
+/**
+ * A confirmation with its templates evaluated, as shown to the user.
+ */
+export interface ConfirmRequest {
+  title: string;
+  message: string;
+  confirmLabel: string;
+  cancelLabel: string;
+  destructive: boolean;
+}
+
+// Resolves to true when the user confirms
+export type ConfirmHandler = (request: ConfirmRequest) => Promise<boolean>;
+
+/**
+ * What a `navigate` action asks the runtime's router to do. `back` and
+ * `forward` ignore the path.
+ */
+export interface NavigationRequest {
+  path: string;
+  query: Record<string, string>;
+  history: 'push' | 'replace' | 'back' | 'forward';
+}
+
+export type WorkflowRunner = (workflow: Workflow, params?: Record<string, unknown>) => Promise<ActionResult>;
+
+// Persisted store keys live under one entry per storage
+const PERSISTED_STORE_KEY = 'appbuilder_store';
+
+// Statuses retried when an http action doesn't list its own `retryOn`
+export const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+const DEFAULT_RETRY_DELAY = 500;
+const MAX_RETRY_DELAY = 30000;
+
+// Abort reasons: a newer run of the same action wins and its result is the one kept
+const SUPERSEDED = 'superseded';
+const CANCELLED = 'cancelled';
+
 export class ActionManager {
   private actions: Map<string, ActionDefinition>;
   private listeners: Map<string, Set<ActionListener>>;
   private results: Map<string, ActionResult>;
+  private running: Map<string, number>;
+  private lastRunAt: Map<string, number>;
+  private runners: Map<string, ActionState['run']>;
+  private controllers: Map<string, AbortController>;
+  // Successful results per action, keyed by request
+  private cache: Map<string, Map<string, CacheEntry>>;
+  // Runs in flight by request key, shared by identical runs
+  private inflight: Map<string, Promise<ActionResult>>;
+  // Result of the newest run per action, handed to the runs it supersedes
+  private latest: Map<string, Promise<ActionResult>>;
+  private changeListeners: Set<ActionsChangeListener>;
   private widgetUpdateCallback?: (widgetId: string, updates: any) => void;
-  private navigationCallback?: (path: string, params?: any) => void;
+  private navigationCallback?: (request: NavigationRequest) => void;
   private modalCallback?: (modalId: string, action: 'open' | 'close') => void;
+  private storeAdapter?: StoreAdapter;
+  private workflowRunner?: WorkflowRunner;
+  private confirmHandler?: ConfirmHandler;
 
   constructor() {
     this.actions = new Map();
     this.listeners = new Map();
     this.results = new Map();
+    this.running = new Map();
+    this.lastRunAt = new Map();
+    this.runners = new Map();
+    this.controllers = new Map();
+    this.cache = new Map();
+    this.inflight = new Map();
+    this.latest = new Map();
+    this.changeListeners = new Set();
   }
 
   registerAction(action: ActionDefinition) {
     this.actions.set(action.id, action);
+    this.cache.delete(action.id);
+    this.notifyChange(action.id);
+  }
+
+  getAction(actionId: string): ActionDefinition | undefined {
+    return this.actions.get(actionId);
   }
 
   unregisterAction(actionId: string) {
+    this.cancel(actionId);
     this.actions.delete(actionId);
+    this.cache.delete(actionId);
     this.listeners.delete(actionId);
     this.results.delete(actionId);
+    this.running.delete(actionId);
+    this.lastRunAt.delete(actionId);
+    this.runners.delete(actionId);
+    this.notifyChange(actionId);
   }
 
   onWidgetUpdate(callback: (widgetId: string, updates: any) => void) {
     this.widgetUpdateCallback = callback;
   }
 
-  onNavigation(callback: (path: string, params?: any) => void) {
+  onNavigation(callback?: (request: NavigationRequest) => void) {
     this.navigationCallback = callback;
   }
 
@@ -50,6 +157,32 @@ export class ActionManager {
     this.modalCallback = callback;
   }
 
+  onConfirm(handler?: ConfirmHandler) {
+    this.confirmHandler = handler;
+  }
+
+  bindStore(adapter: StoreAdapter) {
+    this.storeAdapter = adapter;
+  }
+
+  setWorkflowRunner(runner: WorkflowRunner) {
+    this.workflowRunner = runner;
+  }
+
+  /**
+   * Copies keys saved by `persistStore` back into the store. Session values
+   * win over local ones.
+   */
+  restorePersistedStore() {
+    if (!this.storeAdapter) return;
+
+    for (const storage of ['local', 'session'] as StoreStorage[]) {
+      for (const [key, value] of Object.entries(readPersistedStore(storage))) {
+        this.storeAdapter.set(key, value);
+      }
+    }
+  }
+
   addListener(actionId: string, listener: ActionListener) {
     if (!this.listeners.has(actionId)) {
       this.listeners.set(actionId, new Set());
@@ -65,6 +198,52 @@ export class ActionManager {
     return this.results.get(actionId);
   }
 
+  /**
+   * Fires whenever any action is registered, removed, starts or finishes.
+   * Returns an unsubscribe function.
+   */
+  onActionsChange(listener: ActionsChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  getActionState(actionId: string): ActionState {
+    const result = this.results.get(actionId);
+
+    // Reuse the same runner so expressions reading `.run` aren't invalidated on every change
+    let run = this.runners.get(actionId);
+    if (!run) {
+      run = (params?: Record<string, unknown>) => this.run(actionId, params);
+      this.runners.set(actionId, run);
+    }
+
+    return {
+      data: result?.success ? result.data : undefined,
+      error: result && !result.success ? result.error ?? 'Unknown error' : null,
+      isLoading: (this.running.get(actionId) || 0) > 0,
+      lastRunAt: this.lastRunAt.get(actionId) ?? null,
+      run
+    };
+  }
+
+  /**
+   * Builds the `actions` namespace for the expression context.
+   */
+  getActionsContext(): Record<string, ActionState> {
+    const context: Record<string, ActionState> = {};
+    for (const actionId of this.actions.keys()) {
+      context[actionId] = this.getActionState(actionId);
+    }
+    return context;
+  }
+
+  /**
+   * Runs a registered action. Data actions (http, sql, graphql) share one
+   * request between identical concurrent runs, and actions with a `cache`
+   * policy answer from the cache while it is fresh.
+   */
   async run(actionId: string, params?: Record<string, any>): Promise<ActionResult> {
     const action = this.actions.get(actionId);
 
@@ -77,28 +256,245 @@ export class ActionManager {
       return result;
     }
 
-    try {
-      const result = await this.executeAction(action, params);
-      this.results.set(actionId, result);
-      this.notifyListeners(actionId, result);
+    const key = await getRequestKey(action, params);
+    if (key === undefined) {
+      return (await this.start(action, params)).result;
+    }
+
+    const inflight = this.inflight.get(key);
+    if (inflight) {
+      return inflight;
+    }
+
+    const entry = this.cache.get(actionId)?.get(key);
+    if (entry && action.cache) {
+      const age = Date.now() - entry.storedAt;
+      const { ttl, staleWhileRevalidate = 0 } = action.cache;
+
+      if (age < ttl + staleWhileRevalidate) {
+        if (age >= ttl) {
+          void this.startShared(action, params, key);
+        }
+        this.results.set(actionId, entry.result);
+        this.notifyListeners(actionId, entry.result);
+        return entry.result;
+      }
+    }
+
+    return this.startShared(action, params, key);
+  }
+
+  /**
+   * Drops cached results of one action, or of all actions, so their next
+   * run makes a request.
+   */
+  invalidate(actionId?: string) {
+    if (actionId === undefined) {
+      this.cache.clear();
+    } else {
+      this.cache.delete(actionId);
+    }
+  }
+
+  private startShared(action: ActionDefinition, params: Record<string, unknown> | undefined, key: string): Promise<ActionResult> {
+    const promise = this.start(action, params).then(({ result, superseded }) => {
+      if (this.inflight.get(key) === promise) {
+        this.inflight.delete(key);
+      }
+      if (!superseded && result.success && action.cache && this.actions.get(action.id) === action) {
+        if (!this.cache.has(action.id)) {
+          this.cache.set(action.id, new Map());
+        }
+        this.cache.get(action.id)!.set(key, { result, storedAt: Date.now() });
+      }
       return result;
+    });
+
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Runs an action, superseding its previous run. A superseded run resolves
+   * with the result of the run that replaced it, so its caller doesn't treat
+   * the abort as a failure.
+   */
+  private async start(
+    action: ActionDefinition,
+    params?: Record<string, unknown>
+  ): Promise<{ result: ActionResult; superseded: boolean }> {
+    const actionId = action.id;
+    let settle: (result: ActionResult) => void = () => {};
+    const settled = new Promise<ActionResult>((resolve) => {
+      settle = resolve;
+    });
+    this.latest.set(actionId, settled);
+    this.controllers.get(actionId)?.abort(SUPERSEDED);
+    const controller = new AbortController();
+    this.controllers.set(actionId, controller);
+
+    this.running.set(actionId, (this.running.get(actionId) || 0) + 1);
+    this.notifyChange(actionId);
+
+    let result: ActionResult;
+    try {
+      result = await this.executeAction(action, params, controller.signal);
     } catch (error) {
-      const result: ActionResult = {
+      result = {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
-      this.results.set(actionId, result);
-      this.notifyListeners(actionId, result);
-      return result;
     }
+
+    if (controller.signal.aborted) {
+      result = { success: false, error: 'Request cancelled' };
+    }
+    if (this.controllers.get(actionId) === controller) {
+      this.controllers.delete(actionId);
+    }
+
+    this.running.set(actionId, Math.max((this.running.get(actionId) || 1) - 1, 0));
+    if (controller.signal.reason === SUPERSEDED) {
+      // The newer run reports its own result
+      this.notifyChange(actionId);
+      const newer = this.latest.get(actionId);
+      result = newer && newer !== settled ? await newer : this.results.get(actionId) ?? result;
+      settle(result);
+      return { result, superseded: true };
+    }
+
+    if (this.latest.get(actionId) === settled) {
+      this.latest.delete(actionId);
+    }
+    this.lastRunAt.set(actionId, Date.now());
+    this.results.set(actionId, result);
+    this.notifyListeners(actionId, result);
+    settle(result);
+    return { result, superseded: false };
+  }
+
+  /**
+   * Aborts the in-flight run of an action, if any. The run resolves with a
+   * "Request cancelled" error.
+   */
+  cancel(actionId: string) {
+    this.controllers.get(actionId)?.abort(CANCELLED);
+  }
+
+  cancelAll() {
+    for (const actionId of [...this.controllers.keys()]) {
+      this.cancel(actionId);
+    }
+  }
+
+  /**
+   * Runs an action that isn't registered, e.g. an inline step of a widget
+   * event. Errors become a failed result instead of throwing.
+   */
+  async execute(action: ActionDefinition, params?: Record<string, unknown>): Promise<ActionResult> {
+    try {
+      return await this.executeAction(action, params);
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Runs the steps of a widget event in order. `params` carries the event
+   * payload (e.g. `{ value }` for onChange) and is merged under each step's
+   * own params. A failed step runs its `onError` branch and stops the list.
+   * A step with `confirm` asks first; declining stops the list without
+   * running any branch.
+   */
+  async runEventActions(steps: EventAction[], params?: Record<string, unknown>): Promise<ActionResult[]> {
+    const results: ActionResult[] = [];
+
+    for (const step of steps) {
+      if (step.confirm && !(await this.confirm(step.confirm, params))) {
+        results.push({ success: false, error: 'Cancelled by user' });
+        break;
+      }
+
+      const result = await this.runEventAction(step, params);
+      results.push(result);
+
+      const branch = result.success ? step.onSuccess : step.onError;
+      if (branch?.length) {
+        await this.runEventActions(branch, params);
+      }
+      if (!result.success) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  private async confirm(config: ConfirmationConfig, params?: Record<string, unknown>): Promise<boolean> {
+    const evaluate = async (text: string | undefined, fallback: string) => {
+      if (!text) return fallback;
+      try {
+        return String(await expressionEngine.evaluateValueAsync(text, { params: params ?? {} }));
+      } catch {
+        return text;
+      }
+    };
+
+    const request: ConfirmRequest = {
+      title: await evaluate(config.title, 'Confirm action'),
+      message: await evaluate(config.message, ''),
+      confirmLabel: config.confirmLabel || 'Confirm',
+      cancelLabel: config.cancelLabel || 'Cancel',
+      destructive: Boolean(config.destructive)
+    };
+
+    if (this.confirmHandler) {
+      return this.confirmHandler(request);
+    }
+    return window.confirm(request.message ? `${request.title}\n\n${request.message}` : request.title);
+  }
+
+  private async runEventAction(step: EventAction, params?: Record<string, unknown>): Promise<ActionResult> {
+    // Step params see the event payload, so `{{ params.row.id }}` picks a field out of it
+    const stepParams: Record<string, unknown> = { ...params };
+    for (const [key, value] of Object.entries(step.params || {})) {
+      if (typeof value !== 'string' || !expressionEngine.hasExpression(value)) {
+        stepParams[key] = value;
+        continue;
+      }
+      try {
+        stepParams[key] = await expressionEngine.evaluateValueAsync(value, { params: params ?? {} });
+      } catch (error) {
+        return { success: false, error: `Could not evaluate step param "${key}": ${error instanceof Error ? error.message : String(error)}` };
+      }
+    }
+
+    if (step.actionId) {
+      return this.run(step.actionId, stepParams);
+    }
+    if (!step.type) {
+      return { success: false, error: 'Event step has no action' };
+    }
+    return this.execute({ id: step.id, type: step.type, config: step.config || {} }, stepParams);
   }
 
-  private async executeAction(action: ActionDefinition, params?: Record<string, any>): Promise<ActionResult> {
+  private async executeAction(
+    action: ActionDefinition,
+    params?: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
     switch (action.type) {
       case 'http':
-        return await this.executeHttpAction(action, params);
+        return await this.executeHttpAction(action, params, signal);
+      case 'sql':
+        return await this.executeSqlAction(action, params, signal);
       case 'graphql':
         return await this.executeGraphQLAction(action, params);
+      case 'workflow':
+        return await this.executeWorkflowAction(action, params);
       case 'updateWidget':
         return this.executeUpdateWidgetAction(action, params);
       case 'navigate':
@@ -113,6 +509,14 @@ export class ActionManager {
         return this.executeToastAction(action, params);
       case 'localStorage':
         return this.executeLocalStorageAction(action, params);
+      case 'setStore':
+        return await this.executeSetStoreAction(action, params);
+      case 'clearStore':
+        return this.executeClearStoreAction(action);
+      case 'persistStore':
+        return this.executePersistStoreAction(action);
+      case 'invalidateCache':
+        return this.executeInvalidateCacheAction(action);
       case 'copyToClipboard':
         return this.executeCopyToClipboardAction(action, params);
       case 'downloadFile':
@@ -124,78 +528,124 @@ export class ActionManager {
     }
   }
 
-  private async executeHttpAction(action: ActionDefinition, params?: Record<string, any>): Promise<ActionResult> {
-    const { url, method = 'GET', headers = {}, body, timeout = 30000 } = action.config;
-
-    const evaluatedUrl = expressionEngine.evaluateTemplate(url);
-    const evaluatedHeaders: Record<string, string> = {};
-
-    for (const [key, value] of Object.entries(headers)) {
-      evaluatedHeaders[key] = expressionEngine.evaluateTemplate(String(value));
-    }
-
-    const evaluatedBody = body ? expressionEngine.evaluateTemplate(JSON.stringify(body)) : undefined;
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-    try {
-      const response = await fetch(evaluatedUrl, {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-          ...evaluatedHeaders
-        },
-        body: evaluatedBody,
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      const contentType = response.headers.get('content-type');
-      let data;
-
-      if (contentType?.includes('application/json')) {
-        data = await response.json();
-      } else {
-        data = await response.text();
-      }
+  private async executeHttpAction(
+    action: ActionDefinition,
+    params?: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
+    const {
+      timeout = 30000,
+      retries = 0,
+      retryDelay = DEFAULT_RETRY_DELAY,
+      retryOn = DEFAULT_RETRY_STATUSES
+    } = action.config;
+
+    const { method, url, headers, body } = await resolveHttpRequest(action.config, params);
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < retries;
+      // Each attempt gets its own timeout; cancelling the run aborts whichever attempt is in flight
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      const timeoutId = setTimeout(abort, timeout);
+      signal?.addEventListener('abort', abort);
+
+      try {
+        const response = await fetch(url, {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            ...headers
+          },
+          body,
+          signal: controller.signal
+        });
+
+        const contentType = response.headers.get('content-type');
+        let data;
+
+        if (contentType?.includes('application/json')) {
+          data = await response.json();
+        } else {
+          data = await response.text();
+        }
+
+        if (!response.ok) {
+          if (canRetry && retryOn.includes(response.status)) {
+            await wait(backoffDelay(retryDelay, attempt), signal);
+            continue;
+          }
+          return {
+            success: false,
+            error: `HTTP ${response.status}: ${response.statusText}`,
+            data
+          };
+        }
 
-      if (!response.ok) {
         return {
-          success: false,
-          error: `HTTP ${response.status}: ${response.statusText}`,
+          success: true,
           data
         };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+
+        // Network errors and timeouts are always worth another attempt
+        if (canRetry) {
+          await wait(backoffDelay(retryDelay, attempt), signal);
+          continue;
+        }
+        if (controller.signal.aborted) {
+          throw new Error(`Request timed out after ${timeout}ms`);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', abort);
       }
+    }
+  }
 
-      return {
-        success: true,
-        data
-      };
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
+  private async executeSqlAction(
+    action: ActionDefinition,
+    params?: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
+    const { datasource, limit } = action.config;
+
+    if (!datasource) {
+      return { success: false, error: 'No datasource selected' };
+    }
+
+    const evaluatedQuery = await evaluateRequestText(action.config.query, params);
+    if (!evaluatedQuery.trim()) {
+      return { success: false, error: 'Query is empty' };
     }
+
+    // Queries are simulated until datasources can be reached from the browser
+    await wait(1000 + Math.random() * 2000, signal);
+    const rows = [
+      { id: 1, name: 'John Doe', email: 'john@example.com', role: 'Admin', created_at: '2024-01-15' },
+      { id: 2, name: 'Jane Smith', email: 'jane@example.com', role: 'User', created_at: '2024-01-16' },
+      { id: 3, name: 'Bob Johnson', email: 'bob@example.com', role: 'Editor', created_at: '2024-01-17' },
+    ];
+
+    return {
+      success: true,
+      data: limit ? rows.slice(0, limit) : rows
+    };
   }
 
   private async executeGraphQLAction(action: ActionDefinition, params?: Record<string, any>): Promise<ActionResult> {
-    const { url, query, variables = {}, headers = {} } = action.config;
-
-    const evaluatedUrl = expressionEngine.evaluateTemplate(url);
-    const evaluatedQuery = expressionEngine.evaluateTemplate(query);
-    const evaluatedVariables = JSON.parse(expressionEngine.evaluateTemplate(JSON.stringify(variables)));
+    const { headers = {} } = action.config;
+    const { url, query, variables } = await resolveGraphQLRequest(action.config, params);
 
-    const response = await fetch(evaluatedUrl, {
+    const response = await fetch(url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         ...headers
       },
-      body: JSON.stringify({
-        query: evaluatedQuery,
-        variables: evaluatedVariables
-      })
+      body: JSON.stringify({ query, variables })
     });
 
     const result = await response.json();
@@ -214,13 +664,20 @@ export class ActionManager {
     };
   }
 
+  private async executeWorkflowAction(action: ActionDefinition, params?: Record<string, unknown>): Promise<ActionResult> {
+    if (!this.workflowRunner) {
+      throw new Error('Workflows are not available');
+    }
+    return this.workflowRunner(action.config.workflow, params);
+  }
+
   private executeUpdateWidgetAction(action: ActionDefinition, params?: Record<string, any>): ActionResult {
     const { widgetId, updates } = action.config;
 
     const evaluatedUpdates: Record<string, any> = {};
     for (const [key, value] of Object.entries(updates)) {
       if (typeof value === 'string' && expressionEngine.hasExpression(value)) {
-        evaluatedUpdates[key] = expressionEngine.evaluate(value);
+        evaluatedUpdates[key] = expressionEngine.evaluateValue(value);
       } else {
         evaluatedUpdates[key] = value;
       }
@@ -237,18 +694,30 @@ export class ActionManager {
   }
 
   private executeNavigateAction(action: ActionDefinition, params?: Record<string, any>): ActionResult {
-    const { path, queryParams } = action.config;
-    const evaluatedPath = expressionEngine.evaluateTemplate(path);
+    const { path = '', queryParams = {}, history = 'push' } = action.config;
+    const request: NavigationRequest = {
+      path: expressionEngine.evaluateTemplate(path),
+      query: {},
+      history
+    };
+    for (const [key, value] of Object.entries(queryParams as Record<string, unknown>)) {
+      if (key) request.query[key] = expressionEngine.evaluateTemplate(String(value));
+    }
 
     if (this.navigationCallback) {
-      this.navigationCallback(evaluatedPath, queryParams);
+      this.navigationCallback(request);
+    } else if (history === 'back') {
+      window.history.back();
+    } else if (history === 'forward') {
+      window.history.forward();
     } else {
-      window.location.href = evaluatedPath;
+      const search = new URLSearchParams(request.query).toString();
+      window.location.href = search ? `${request.path}${request.path.includes('?') ? '&' : '?'}${search}` : request.path;
     }
 
     return {
       success: true,
-      data: { path: evaluatedPath }
+      data: request
     };
   }
 
@@ -268,24 +737,40 @@ export class ActionManager {
   private executeAlertAction(action: ActionDefinition, params?: Record<string, any>): ActionResult {
     const { message, title } = action.config;
     const evaluatedMessage = expressionEngine.evaluateTemplate(message);
+    const evaluatedTitle = title ? expressionEngine.evaluateTemplate(title) : undefined;
 
-    alert(evaluatedMessage);
+    // In the runtime alerts are toasts that stay until dismissed instead of blocking the page
+    if (toastManager.hasHost()) {
+      toastManager.show({ message: evaluatedMessage, title: evaluatedTitle, duration: 0 });
+    } else {
+      alert(evaluatedMessage);
+    }
 
     return {
       success: true,
-      data: { message: evaluatedMessage }
+      data: { message: evaluatedMessage, title: evaluatedTitle }
     };
   }
 
   private executeToastAction(action: ActionDefinition, params?: Record<string, any>): ActionResult {
-    const { message, type = 'info', duration = 3000 } = action.config;
+    const { message, title, type = 'info', duration = 3000, link } = action.config;
     const evaluatedMessage = expressionEngine.evaluateTemplate(message);
-
-    console.log(`[Toast ${type}]:`, evaluatedMessage);
+    const evaluatedTitle = title ? expressionEngine.evaluateTemplate(title) : undefined;
+    const evaluatedLink = link?.label && link?.url
+      ? { label: expressionEngine.evaluateTemplate(link.label), url: expressionEngine.evaluateTemplate(link.url) }
+      : undefined;
+
+    const id = toastManager.show({
+      message: evaluatedMessage,
+      title: evaluatedTitle,
+      type,
+      duration: Number(duration),
+      link: evaluatedLink
+    });
 
     return {
       success: true,
-      data: { message: evaluatedMessage, type, duration }
+      data: { id, message: evaluatedMessage, type, duration }
     };
   }
 
@@ -313,6 +798,81 @@ export class ActionManager {
     }
   }
 
+  private getStoreAdapter(): StoreAdapter {
+    if (!this.storeAdapter) {
+      throw new Error('Store is not available');
+    }
+    return this.storeAdapter;
+  }
+
+  private async executeSetStoreAction(action: ActionDefinition, params?: Record<string, unknown>): Promise<ActionResult> {
+    const store = this.getStoreAdapter();
+    const { key, value, persist } = action.config;
+
+    if (!key) {
+      return { success: false, error: 'setStore needs a key' };
+    }
+
+    const evaluatedValue = params?.value !== undefined
+      ? params.value
+      : typeof value === 'string' ? await expressionEngine.evaluateValue(value) : value;
+    store.set(key, evaluatedValue);
+
+    if (persist) {
+      writePersistedStore(persist, { ...readPersistedStore(persist), [key]: evaluatedValue });
+    }
+
+    return { success: true, data: { key, value: evaluatedValue } };
+  }
+
+  private executeClearStoreAction(action: ActionDefinition): ActionResult {
+    const store = this.getStoreAdapter();
+    const keys: string[] | undefined = action.config.keys?.length ? action.config.keys : undefined;
+
+    store.clear(keys);
+
+    // Cleared keys shouldn't come back on the next load
+    for (const storage of ['local', 'session'] as StoreStorage[]) {
+      if (keys) {
+        const persisted = readPersistedStore(storage);
+        keys.forEach((key) => delete persisted[key]);
+        writePersistedStore(storage, persisted);
+      } else {
+        writePersistedStore(storage, {});
+      }
+    }
+
+    return { success: true, data: { keys: keys ?? [] } };
+  }
+
+  private executePersistStoreAction(action: ActionDefinition): ActionResult {
+    const state = this.getStoreAdapter().get();
+    const { keys, storage = 'local' } = action.config as { keys?: string[]; storage?: StoreStorage };
+
+    const selected = keys?.length ? keys : Object.keys(state);
+    const persisted = readPersistedStore(storage);
+    for (const key of selected) {
+      if (key in state) {
+        persisted[key] = state[key];
+      }
+    }
+    writePersistedStore(storage, persisted);
+
+    return { success: true, data: { keys: selected, storage } };
+  }
+
+  private executeInvalidateCacheAction(action: ActionDefinition): ActionResult {
+    const actionIds: string[] = action.config.actionIds?.length ? action.config.actionIds : [];
+
+    if (actionIds.length === 0) {
+      this.invalidate();
+    } else {
+      actionIds.forEach((actionId) => this.invalidate(actionId));
+    }
+
+    return { success: true, data: { actionIds } };
+  }
+
   private executeCopyToClipboardAction(action: ActionDefinition, params?: Record<string, any>): ActionResult {
     const { text } = action.config;
     const evaluatedText = expressionEngine.evaluateTemplate(text);
@@ -363,6 +923,11 @@ export class ActionManager {
     if (listeners) {
       listeners.forEach(listener => listener(result));
     }
+    this.notifyChange(actionId);
+  }
+
+  private notifyChange(actionId: string) {
+    this.changeListeners.forEach(listener => listener(actionId));
   }
 
   async runActionChain(actionIds: string[], params?: Record<string, any>): Promise<ActionResult[]> {
@@ -381,4 +946,130 @@ export class ActionManager {
   }
 }
 
+function getStorage(storage: StoreStorage): Storage {
+  return storage === 'session' ? sessionStorage : localStorage;
+}
+
+function readPersistedStore(storage: StoreStorage): Record<string, unknown> {
+  try {
+    const raw = getStorage(storage).getItem(PERSISTED_STORE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writePersistedStore(storage: StoreStorage, values: Record<string, unknown>) {
+  if (Object.keys(values).length === 0) {
+    getStorage(storage).removeItem(PERSISTED_STORE_KEY);
+  } else {
+    getStorage(storage).setItem(PERSISTED_STORE_KEY, JSON.stringify(values));
+  }
+}
+
+/**
+ * Evaluates a template of a data request with the run's params in scope
+ * (`{{ params.id }}`). Throws when the template doesn't evaluate, so a
+ * half-built request is never sent.
+ */
+async function evaluateRequestText(text: string, params?: Record<string, unknown>): Promise<string> {
+  let value: unknown;
+  try {
+    value = await expressionEngine.evaluateValueAsync(String(text ?? ''), { params: params ?? {} });
+  } catch (error) {
+    throw new Error(`Could not evaluate "${text}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+async function evaluateRequestRecord(
+  record: Record<string, unknown>,
+  params?: Record<string, unknown>
+): Promise<Record<string, string>> {
+  const evaluated: Record<string, string> = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (key) evaluated[key] = await evaluateRequestText(String(value), params);
+  }
+  return evaluated;
+}
+
+async function resolveHttpRequest(config: ActionDefinition['config'], params?: Record<string, unknown>) {
+  const method: string = config.method || 'GET';
+  const url = appendQuery(await evaluateRequestText(config.url, params), await evaluateRequestRecord(config.query || {}, params));
+  const headers = await evaluateRequestRecord(config.headers || {}, params);
+  const body = config.body && method !== 'GET'
+    ? await evaluateRequestText(typeof config.body === 'string' ? config.body : JSON.stringify(config.body), params)
+    : undefined;
+  return { method, url, headers, body };
+}
+
+async function resolveGraphQLRequest(config: ActionDefinition['config'], params?: Record<string, unknown>) {
+  return {
+    url: await evaluateRequestText(config.url, params),
+    query: await evaluateRequestText(config.query, params),
+    variables: JSON.parse(await evaluateRequestText(JSON.stringify(config.variables || {}), params))
+  };
+}
+
+/**
+ * Identifies a data action's request by what it would send, so runs that
+ * resolve to the same request can share a result. Other actions, and
+ * requests whose templates fail, have no key; the run then reports the
+ * failure itself.
+ */
+async function getRequestKey(action: ActionDefinition, params?: Record<string, unknown>): Promise<string | undefined> {
+  const { config } = action;
+  let request: unknown;
+
+  try {
+    switch (action.type) {
+      case 'http':
+        request = await resolveHttpRequest(config, params);
+        break;
+      case 'sql':
+        request = [config.datasource, await evaluateRequestText(config.query, params), config.limit];
+        break;
+      case 'graphql':
+        request = await resolveGraphQLRequest(config, params);
+        break;
+      default:
+        return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+
+  return JSON.stringify([action.id, request, params ?? {}]);
+}
+
+// Exponential backoff with jitter, so clients that failed together don't retry together
+function backoffDelay(base: number, attempt: number): number {
+  const delay = Math.min(base * 2 ** attempt, MAX_RETRY_DELAY);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request cancelled'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new Error('Request cancelled'));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function appendQuery(url: string, query: Record<string, string>): string {
+  const search = new URLSearchParams(query).toString();
+  return search ? `${url}${url.includes('?') ? '&' : '?'}${search}` : url;
+}
+
 export const actionManager = new ActionManager();
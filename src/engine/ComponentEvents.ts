@@ -0,0 +1,133 @@
+import { ActionConfig, ComponentType, EventAction } from '../types';
+import type { ActionDefinition } from './ActionManager';
+
+export interface EventDeclaration {
+  name: string;
+  label: string;
+  // What the widget passes to the event's actions as params
+  payload?: string;
+}
+
+const changeEvent = (payload: string): EventDeclaration => ({ name: 'onChange', label: 'Change', payload });
+
+/**
+ * The events each component type fires in the runtime. Only these can be
+ * given actions in the properties panel.
+ */
+export const COMPONENT_EVENTS: Partial<Record<ComponentType, EventDeclaration[]>> = {
+  button: [{ name: 'onClick', label: 'Click' }],
+  image: [{ name: 'onClick', label: 'Click' }],
+  input: [changeEvent('{ value }')],
+  select: [changeEvent('{ value }')],
+  checkbox: [changeEvent('{ value, checked }')],
+  datepicker: [changeEvent('{ value }')],
+  form: [{ name: 'onSubmit', label: 'Submit', payload: '{ values }' }],
+  table: [{ name: 'onRowSelected', label: 'Row selected', payload: '{ row, rowIndex }' }],
+  tabs: [{ name: 'onTabChange', label: 'Tab change', payload: '{ tabId }' }]
+};
+
+// Fired by a Table row action button; its steps come from `rowActions` rather than `events`
+export const ROW_ACTION_EVENT = 'onRowAction';
+
+export function getComponentEvents(type: ComponentType): EventDeclaration[] {
+  return COMPONENT_EVENTS[type] || [];
+}
+
+// Actions that event steps and workflow nodes can run without registering them
+export const INLINE_ACTION_LABELS: Partial<Record<ActionDefinition['type'], string>> = {
+  showAlert: 'Show alert',
+  showToast: 'Show toast',
+  navigate: 'Navigate',
+  setStore: 'Set store value',
+  clearStore: 'Clear store',
+  invalidateCache: 'Invalidate cache',
+  updateWidget: 'Update widget',
+  copyToClipboard: 'Copy to clipboard',
+  downloadFile: 'Download file',
+  openModal: 'Open modal',
+  closeModal: 'Close modal',
+  runJS: 'Run expression'
+};
+
+/**
+ * Default config for inline actions added in the events or workflow editor.
+ */
+export const INLINE_ACTION_DEFAULTS: Partial<Record<ActionDefinition['type'], Record<string, unknown>>> = {
+  showAlert: { title: '', message: '' },
+  showToast: { title: '', message: '', type: 'info', duration: 3000, link: { label: '', url: '' } },
+  navigate: { path: '/', queryParams: {}, history: 'push' },
+  setStore: { key: '', value: '' },
+  clearStore: { keys: [] },
+  invalidateCache: { actionIds: [] },
+  updateWidget: { widgetId: '', updates: {} },
+  copyToClipboard: { text: '' },
+  downloadFile: { url: '', filename: '' },
+  openModal: { modalId: '' },
+  closeModal: { modalId: '' },
+  runJS: { code: '' }
+};
+
+export function createEventAction(step: Omit<EventAction, 'id'>): EventAction {
+  return { id: `step-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`, ...step };
+}
+
+/**
+ * Turns an `ActionConfig` (Table `rowActions`) into event steps.
+ * `successMessage` / `errorMessage` become toasts raised once the action
+ * finishes, and an enabled `confirmation` asks before it runs. For `query`
+ * the config's `params` become the step's params, so
+ * `{ id: '{{ params.row.id }}' }` hands the clicked row's id to the action.
+ */
+export function actionConfigToSteps(config: ActionConfig): EventAction[] {
+  const params = config.params || {};
+  const target = config.target || '';
+  let step: Omit<EventAction, 'id'>;
+
+  switch (config.type) {
+    case 'query':
+      step = { actionId: target, params };
+      break;
+    case 'js':
+      step = { type: 'runJS', config: { code: target } };
+      break;
+    case 'modal':
+      step = { type: 'openModal', config: { modalId: target } };
+      break;
+    case 'navigate':
+      step = { type: 'navigate', config: { path: target } };
+      break;
+    case 'alert':
+      step = { type: 'showAlert', config: { message: params.message ?? target } };
+      break;
+    case 'download':
+      step = { type: 'downloadFile', config: { url: target, filename: params.filename ?? 'download' } };
+      break;
+    case 'copy':
+      step = { type: 'copyToClipboard', config: { text: params.text ?? target } };
+      break;
+    default:
+      return [];
+  }
+
+  const toast = (message: string, type: 'success' | 'error') =>
+    [createEventAction({ type: 'showToast', config: { ...INLINE_ACTION_DEFAULTS.showToast, message, type } })];
+
+  const { confirmation } = config;
+  if (confirmation?.enabled) {
+    step.confirm = {
+      title: confirmation.title,
+      message: confirmation.message || 'Are you sure?',
+      confirmLabel: confirmation.confirmLabel,
+      cancelLabel: confirmation.cancelLabel,
+      destructive: confirmation.destructive
+    };
+  }
+
+  return [
+    createEventAction({
+      ...step,
+      onSuccess: config.successMessage ? toast(config.successMessage, 'success') : undefined,
+      onError: config.errorMessage ? toast(config.errorMessage, 'error') : undefined
+    })
+  ];
+}
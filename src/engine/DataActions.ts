@@ -0,0 +1,102 @@
+import { ApiEndpoint, SqlQuery, Workflow } from '../types';
+import { actionManager, ActionDefinition } from './ActionManager';
+
+export function apiToAction(api: ApiEndpoint): ActionDefinition {
+  const headers: Record<string, string> = { ...api.headers };
+  const auth = api.authentication;
+
+  if (auth?.type === 'bearer' && auth.token) {
+    headers['Authorization'] = `Bearer ${auth.token}`;
+  } else if (auth?.type === 'basic' && auth.username) {
+    headers['Authorization'] = `Basic ${btoa(`${auth.username}:${auth.password || ''}`)}`;
+  } else if (auth?.type === 'api-key' && auth.apiKey) {
+    headers[auth.apiKeyHeader || 'X-API-Key'] = auth.apiKey;
+  }
+
+  return {
+    id: api.name,
+    type: 'http',
+    source: { type: 'api', id: api.id },
+    cache: api.cache,
+    config: {
+      url: api.url,
+      method: api.method,
+      headers,
+      query: api.params || {},
+      body: api.body,
+      timeout: api.timeout || 30000,
+      retries: api.retries || 0,
+      retryDelay: api.retryDelay,
+      retryOn: api.retryOn
+    }
+  };
+}
+
+export function queryToAction(query: SqlQuery): ActionDefinition {
+  return {
+    id: query.name,
+    type: 'sql',
+    source: { type: 'query', id: query.id },
+    cache: query.cache,
+    config: {
+      query: query.query,
+      datasource: query.datasource,
+      parameters: query.parameters || {},
+      timeout: query.timeout,
+      limit: query.limit
+    }
+  };
+}
+
+export function workflowToAction(workflow: Workflow): ActionDefinition {
+  return {
+    id: workflow.name,
+    type: 'workflow',
+    source: { type: 'workflow', id: workflow.id },
+    config: { workflow }
+  };
+}
+
+/**
+ * Keeps ActionManager in step with the APIs, queries and workflows in the
+ * store. Each one is registered under its name, so `{{ actions.<name>.run() }}`,
+ * widget events and the Run buttons go through the same execution path.
+ */
+export class DataActionBridge {
+  private registered = new Set<string>();
+
+  sync(apis: ApiEndpoint[], queries: SqlQuery[], workflows: Workflow[] = []) {
+    const next = new Map<string, ActionDefinition>();
+
+    // When names collide the first definition wins
+    for (const action of [...apis.map(apiToAction), ...queries.map(queryToAction), ...workflows.map(workflowToAction)]) {
+      if (action.id && !next.has(action.id)) {
+        next.set(action.id, action);
+      }
+    }
+
+    for (const actionId of this.registered) {
+      if (!next.has(actionId)) {
+        actionManager.unregisterAction(actionId);
+      }
+    }
+
+    for (const [actionId, action] of next) {
+      const current = actionManager.getAction(actionId);
+      if (!current || JSON.stringify(current) !== JSON.stringify(action)) {
+        actionManager.registerAction(action);
+      }
+    }
+
+    this.registered = new Set(next.keys());
+  }
+
+  findAction(type: 'api' | 'query' | 'workflow', id: string): string | undefined {
+    return [...this.registered].find((actionId) => {
+      const source = actionManager.getAction(actionId)?.source;
+      return source?.type === type && source.id === id;
+    });
+  }
+}
+
+export const dataActionBridge = new DataActionBridge();
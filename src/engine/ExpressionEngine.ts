@@ -1,3 +1,6 @@
+import { ExpressionError, ExpressionNode, forEachChild, parseExpression, tokenizeTemplate, TemplateTokens } from './ExpressionParser';
+import { interpret, SAFE_GLOBALS } from './ExpressionInterpreter';
+
 export interface EvaluationContext {
   widgets: Record<string, any>;
   actions: Record<string, any>;
@@ -6,9 +9,54 @@ export interface EvaluationContext {
   store: Record<string, any>;
 }
 
+export type BindingStatus = 'pending' | 'resolved' | 'rejected';
+
+/**
+ * A binding is `pending` while its expression returns an unsettled promise;
+ * it keeps its previous value until the promise settles.
+ */
+export interface BindingState {
+  status: BindingStatus;
+  value?: unknown;
+  error?: string;
+}
+
+/**
+ * A template bound to a context path, e.g. `widgets.text1.content`. Its
+ * evaluated value is written back to that path so other bindings can read it.
+ */
+export interface Binding extends BindingState {
+  id: string;
+  template: string;
+  deps: string[];
+  // Set when the binding is part of a dependency cycle
+  cycle?: string;
+  // Bumped on every evaluation so stale promise results are ignored
+  evaluation: number;
+  // Set while a value published at runtime owns the bound path
+  overridden?: boolean;
+}
+
+export type BindingListener = (updates: Record<string, BindingState>) => void;
+
+export interface ExpressionValidation {
+  valid: boolean;
+  error?: string;
+  // Character offsets of the offending part of the expression
+  start?: number;
+  end?: number;
+}
+
+const NAMESPACES = ['widgets', 'actions', 'page', 'store'] as const;
+
 export class ExpressionEngine {
   private context: EvaluationContext;
   private cache: Map<string, { value: any; deps: Set<string> }>;
+  private asts: Map<string, ExpressionNode | ExpressionError> = new Map();
+  private templates: Map<string, TemplateTokens> = new Map();
+  private bindings: Map<string, Binding> = new Map();
+  private evaluationOrder: string[] | null = null;
+  private bindingListeners: Set<BindingListener> = new Set();
 
   constructor() {
     this.context = {
@@ -75,12 +123,32 @@ export class ExpressionEngine {
     };
   }
 
-  updateContext(context: Partial<EvaluationContext>) {
-    this.context = {
+  /**
+   * Merges `context` and re-evaluates only the bindings that depend on the
+   * paths that changed. Returns the bindings whose state changed.
+   */
+  updateContext(context: Partial<EvaluationContext>): Record<string, BindingState> {
+    let next: EvaluationContext = {
       ...this.context,
       ...context
     };
-    this.clearCache();
+
+    // Bound paths are owned by their bindings, unless a runtime value has taken over
+    for (const binding of this.bindings.values()) {
+      if (!binding.overridden) {
+        next = setPath(next, binding.id, binding.value);
+      }
+    }
+
+    if (next.utils !== this.context.utils) {
+      this.context = next;
+      this.clearCache();
+      return this.evaluateBindings();
+    }
+
+    const changed = diffContext(this.context, next);
+    this.context = next;
+    return this.invalidate(changed);
   }
 
   clearCache() {
@@ -88,54 +156,45 @@ export class ExpressionEngine {
   }
 
   extractExpressions(text: string): string[] {
-    const regex = /\{\{([^}]+)\}\}/g;
-    const expressions: string[] = [];
-    let match;
+    return this.tokenize(text).segments.flatMap((segment) =>
+      segment.type === 'expression' ? [segment.source] : []
+    );
+  }
 
-    while ((match = regex.exec(text)) !== null) {
-      expressions.push(match[1].trim());
+  private tokenize(template: string): TemplateTokens {
+    let tokens = this.templates.get(template);
+    if (!tokens) {
+      tokens = tokenizeTemplate(template);
+      this.templates.set(template, tokens);
     }
-
-    return expressions;
+    return tokens;
   }
 
   evaluate(expression: string, throwOnError: boolean = false): any {
     if (!expression) return '';
 
     const cacheKey = expression;
-    if (this.cache.has(cacheKey)) {
+    if (!throwOnError && this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey)!.value;
     }
 
-    try {
-      const sanitizedExpression = this.sanitizeExpression(expression);
-
-      const fn = new Function(
-        'widgets',
-        'actions',
-        'page',
-        'utils',
-        'store',
-        `
-          'use strict';
-          try {
-            return (${sanitizedExpression});
-          } catch (error) {
-            ${throwOnError ? 'throw error;' : 'return undefined;'}
-          }
-        `
-      );
+    const result = this.compute(expression, throwOnError);
 
-      const result = fn(
-        this.context.widgets,
-        this.context.actions,
-        this.context.page,
-        this.context.utils,
-        this.context.store
-      );
+    // Expressions without dependencies (e.g. utils.now()) are not cached
+    const deps = this.getDependencies(expression);
+    if (deps.length > 0) {
+      this.cache.set(cacheKey, { value: result, deps: new Set(deps) });
+    }
+    return result;
+  }
 
-      this.cache.set(cacheKey, { value: result, deps: new Set() });
-      return result;
+  /**
+   * Evaluates an expression and awaits its result. Results are never cached,
+   * so calls like `actions.saveUser.run()` execute every time.
+   */
+  async evaluateAsync(expression: string, throwOnError: boolean = false): Promise<unknown> {
+    try {
+      return await this.compute(expression, true);
     } catch (error) {
       if (throwOnError) {
         throw error;
@@ -145,16 +204,27 @@ export class ExpressionEngine {
     }
   }
 
-  evaluateTemplate(template: string, throwOnError: boolean = false): string {
+  /**
+   * Async counterpart of `evaluateTemplate`. Bindings run one after another,
+   * which makes it suitable for event handlers.
+   */
+  async evaluateTemplateAsync(template: string, throwOnError: boolean = false): Promise<string> {
     if (!template) return '';
 
-    const regex = /\{\{([^}]+)\}\}/g;
+    const { segments, error: syntaxError } = this.tokenize(template);
 
     try {
-      return template.replace(regex, (match, expression) => {
-        const result = this.evaluate(expression.trim(), throwOnError);
-        return result !== undefined && result !== null ? String(result) : '';
-      });
+      if (syntaxError) {
+        throw syntaxError;
+      }
+
+      let text = '';
+      for (const segment of segments) {
+        text += segment.type === 'text'
+          ? segment.value
+          : stringifyValue(await this.evaluateAsync(segment.source, true));
+      }
+      return text;
     } catch (error) {
       if (throwOnError) {
         throw error;
@@ -164,71 +234,583 @@ export class ExpressionEngine {
     }
   }
 
-  private sanitizeExpression(expression: string): string {
-    const forbidden = [
-      'eval',
-      'Function',
-      'constructor',
-      'prototype',
-      '__proto__',
-      'window',
-      'document',
-      'global',
-      'process',
-      'require',
-      'import',
-      'fetch',
-      'XMLHttpRequest'
-    ];
+  /**
+   * Async `evaluateValue` with extra identifiers in scope, such as a
+   * workflow's `vars`. Never cached, since the locals change between calls.
+   */
+  async evaluateValueAsync(text: string, locals: Record<string, unknown> = {}): Promise<unknown> {
+    const trimmed = this.tokenize(text.trim());
+    if (trimmed.error) throw trimmed.error;
+    if (trimmed.segments.length === 1 && trimmed.segments[0].type === 'expression') {
+      return await this.compute(trimmed.segments[0].source, true, locals);
+    }
+
+    let result = '';
+    for (const segment of this.tokenize(text).segments) {
+      result += segment.type === 'text'
+        ? segment.value
+        : stringifyValue(await this.compute(segment.source, true, locals));
+    }
+    return result;
+  }
+
+  private compute(expression: string, throwOnError: boolean, locals?: Record<string, unknown>): unknown {
+    const ast = this.parse(expression);
+    if (ast instanceof ExpressionError) {
+      if (throwOnError) {
+        throw ast;
+      }
+      console.warn('Expression syntax error:', expression, ast.message);
+      return undefined;
+    }
+
+    try {
+      return interpret(ast, this.createScope(locals), expression);
+    } catch (error) {
+      if (throwOnError) {
+        throw error;
+      }
+      return undefined;
+    }
+  }
 
-    for (const keyword of forbidden) {
-      if (expression.includes(keyword)) {
-        throw new Error(`Forbidden keyword in expression: ${keyword}`);
+  private parse(expression: string): ExpressionNode | ExpressionError {
+    let ast = this.asts.get(expression);
+    if (!ast) {
+      try {
+        ast = parseExpression(expression);
+      } catch (error) {
+        if (!(error instanceof ExpressionError)) throw error;
+        ast = error;
       }
+      this.asts.set(expression, ast);
     }
+    return ast;
+  }
 
-    return expression;
+  private createScope(locals: Record<string, unknown> = {}): Map<string, unknown> {
+    return new Map<string, unknown>([
+      ...Object.entries(SAFE_GLOBALS),
+      ...Object.entries(locals),
+      ['widgets', this.context.widgets],
+      ['actions', this.context.actions],
+      ['page', this.context.page],
+      ['utils', this.context.utils],
+      ['store', this.context.store]
+    ]);
+  }
+
+  evaluateTemplate(template: string, throwOnError: boolean = false): string {
+    if (!template) return '';
+
+    const { segments, error: syntaxError } = this.tokenize(template);
+
+    try {
+      if (syntaxError) {
+        throw syntaxError;
+      }
+
+      return segments.map((segment) =>
+        segment.type === 'text' ? segment.value : stringifyValue(this.evaluate(segment.source, throwOnError))
+      ).join('');
+    } catch (error) {
+      if (throwOnError) {
+        throw error;
+      }
+      console.warn('Template evaluation error:', template, error);
+      return template;
+    }
   }
 
   hasExpression(text: string): boolean {
-    return /\{\{([^}]+)\}\}/.test(text);
+    return text.includes('{{') && this.tokenize(text).segments.some((segment) => segment.type === 'expression');
+  }
+
+  /**
+   * Evaluates a prop value: a single `{{ }}` keeps the result's type, mixed
+   * text is interpolated into a string, and plain text is returned as is.
+   * Returns a promise when any binding in it evaluates to one.
+   */
+  evaluateValue(text: string): unknown {
+    const trimmed = this.tokenize(text.trim());
+    if (!trimmed.error && trimmed.segments.length === 1 && trimmed.segments[0].type === 'expression') {
+      return this.evaluate(trimmed.segments[0].source);
+    }
+
+    const { segments, error } = this.tokenize(text);
+    if (!text.includes('{{') || error) {
+      return text.includes('{{') ? this.evaluateTemplate(text) : text;
+    }
+
+    const parts = segments.map((segment) =>
+      segment.type === 'text' ? segment.value : this.evaluate(segment.source)
+    );
+    const join = (values: unknown[]) => values.map(stringifyValue).join('');
+    return parts.some(isPromiseLike) ? Promise.all(parts).then(join) : join(parts);
   }
 
+  /**
+   * Returns the context paths an expression (or a `{{ }}` template) reads,
+   * up to two levels deep (`widgets.input1.value`). Computed access such as
+   * `widgets[name]` falls back to the whole namespace.
+   */
   getDependencies(expression: string): string[] {
-    const deps: string[] = [];
-    const widgetRegex = /widgets\.(\w+)/g;
-    const actionRegex = /actions\.(\w+)/g;
-    const pageRegex = /page\.(\w+)/g;
+    const sources = this.hasExpression(expression) ? this.extractExpressions(expression) : [expression];
+    const deps = new Set<string>();
 
-    let match;
+    for (const source of sources) {
+      const ast = this.parse(source);
+      if (!(ast instanceof ExpressionError)) {
+        collectDependencies(ast, deps, new Set());
+      }
+    }
 
-    while ((match = widgetRegex.exec(expression)) !== null) {
-      deps.push(`widgets.${match[1]}`);
+    return [...deps];
+  }
+
+  /**
+   * Rewrites `namespace.from` to `namespace.to` inside every `{{ }}` of a
+   * template, e.g. after a widget is renamed. Text outside bindings and
+   * bindings that fail to parse are left alone.
+   */
+  renameReferences(template: string, namespace: string, from: string, to: string): string {
+    const { segments } = this.tokenize(template);
+    const ranges: { start: number; end: number; quoted: boolean }[] = [];
+
+    for (const segment of segments) {
+      if (segment.type !== 'expression') continue;
+      try {
+        collectKeyReferences(parseExpression(segment.source, segment.start), namespace, from, new Set(), ranges);
+      } catch {
+        // Invalid bindings keep their text
+      }
     }
 
-    while ((match = actionRegex.exec(expression)) !== null) {
-      deps.push(`actions.${match[1]}`);
+    return ranges
+      .sort((a, b) => b.start - a.start)
+      .reduce(
+        (text, { start, end, quoted }) =>
+          text.slice(0, start) + (quoted ? JSON.stringify(to) : to) + text.slice(end),
+        template
+      );
+  }
+
+  setBinding(id: string, template: string) {
+    if (this.bindings.get(id)?.template === template) return;
+
+    this.bindings.set(id, {
+      id,
+      template,
+      deps: this.getDependencies(template),
+      status: 'pending',
+      evaluation: 0
+    });
+    this.evaluationOrder = null;
+  }
+
+  /**
+   * Lets the value published at a bound path (e.g. what the user typed into
+   * an input bound to `{{ store.name }}`) stand in the context instead of
+   * the binding's value, until the binding evaluates to something new.
+   */
+  overrideBinding(id: string) {
+    const binding = this.bindings.get(id);
+    if (binding) {
+      binding.overridden = true;
     }
+  }
 
-    while ((match = pageRegex.exec(expression)) !== null) {
-      deps.push(`page.${match[1]}`);
+  removeBinding(id: string) {
+    if (this.bindings.delete(id)) {
+      this.evaluationOrder = null;
     }
+  }
 
-    return [...new Set(deps)];
+  clearBindings() {
+    this.bindings.clear();
+    this.evaluationOrder = null;
   }
 
-  validateExpression(expression: string): { valid: boolean; error?: string } {
-    try {
-      this.sanitizeExpression(expression);
-      this.evaluate(expression, true);
-      return { valid: true };
-    } catch (error) {
+  getBinding(id: string): Binding | undefined {
+    return this.bindings.get(id);
+  }
+
+  getBindingState(id: string): BindingState | undefined {
+    const binding = this.bindings.get(id);
+    return binding && toState(binding);
+  }
+
+  /**
+   * Notifies `listener` when async bindings settle, with the settled binding
+   * and every binding re-evaluated because of it.
+   */
+  onBindingsChange(listener: BindingListener): () => void {
+    this.bindingListeners.add(listener);
+    return () => {
+      this.bindingListeners.delete(listener);
+    };
+  }
+
+  getBindingErrors(): Record<string, string> {
+    this.getEvaluationOrder();
+
+    const errors: Record<string, string> = {};
+    for (const binding of this.bindings.values()) {
+      const error = binding.cycle ?? binding.error;
+      if (error) errors[binding.id] = error;
+    }
+    return errors;
+  }
+
+  /**
+   * Evaluates every binding in dependency order and returns all states.
+   */
+  evaluateBindings(): Record<string, BindingState> {
+    this.evaluateInOrder(new Set(this.bindings.keys()));
+
+    const states: Record<string, BindingState> = {};
+    for (const binding of this.bindings.values()) {
+      states[binding.id] = toState(binding);
+    }
+    return states;
+  }
+
+  private invalidate(paths: string[]): Record<string, BindingState> {
+    if (paths.length === 0) return {};
+
+    for (const [expression, entry] of this.cache) {
+      if ([...entry.deps].some((dep) => paths.some((path) => pathsOverlap(dep, path)))) {
+        this.cache.delete(expression);
+      }
+    }
+
+    return this.evaluateInOrder(this.getAffectedBindings(paths));
+  }
+
+  // Bindings that read any of `paths`, plus everything downstream of them
+  private getAffectedBindings(paths: string[]): Set<string> {
+    const affected = new Set<string>();
+    const queue = [...paths];
+
+    while (queue.length > 0) {
+      const path = queue.shift()!;
+      for (const binding of this.bindings.values()) {
+        if (!affected.has(binding.id) && binding.deps.some((dep) => pathsOverlap(dep, path))) {
+          affected.add(binding.id);
+          queue.push(binding.id);
+        }
+      }
+    }
+
+    return affected;
+  }
+
+  private evaluateInOrder(ids: Set<string>): Record<string, BindingState> {
+    const updates: Record<string, BindingState> = {};
+
+    for (const id of this.getEvaluationOrder()) {
+      if (!ids.has(id)) continue;
+
+      const binding = this.bindings.get(id)!;
+      const previous = toState(binding);
+      const evaluation = ++binding.evaluation;
+      const result = binding.cycle ? undefined : this.evaluateValue(binding.template);
+
+      if (binding.cycle) {
+        this.settleBinding(binding, 'rejected', undefined, binding.cycle);
+      } else if (isPromiseLike(result)) {
+        binding.status = 'pending';
+        delete binding.error;
+        Promise.resolve(result).then(
+          (value) => this.settleAsyncBinding(id, evaluation, 'resolved', value),
+          (error) => this.settleAsyncBinding(
+            id,
+            evaluation,
+            'rejected',
+            undefined,
+            error instanceof Error ? error.message : String(error)
+          )
+        );
+      } else {
+        this.settleBinding(binding, 'resolved', result);
+      }
+
+      if (!('value' in previous) || !sameState(previous, binding)) {
+        updates[id] = toState(binding);
+      }
+    }
+
+    return updates;
+  }
+
+  private settleBinding(binding: Binding, status: BindingStatus, value: unknown, error?: string) {
+    binding.status = status;
+    if (error) {
+      binding.error = error;
+    } else {
+      delete binding.error;
+    }
+
+    if ('value' in binding && binding.value === value) return;
+
+    binding.value = value;
+    delete binding.overridden;
+    this.context = setPath(this.context, binding.id, value);
+    for (const [expression, entry] of this.cache) {
+      if ([...entry.deps].some((dep) => pathsOverlap(dep, binding.id))) {
+        this.cache.delete(expression);
+      }
+    }
+  }
+
+  private settleAsyncBinding(id: string, evaluation: number, status: BindingStatus, value: unknown, error?: string) {
+    const binding = this.bindings.get(id);
+    if (!binding || binding.evaluation !== evaluation) return;
+
+    const previousValue = binding.value;
+    this.settleBinding(binding, status, status === 'rejected' ? previousValue : value, error);
+
+    const updates: Record<string, BindingState> = { [id]: toState(binding) };
+    if (binding.value !== previousValue) {
+      Object.assign(updates, this.invalidate([id]));
+    }
+
+    this.bindingListeners.forEach((listener) => listener(updates));
+  }
+
+  // Depth-first topological sort; bindings on a cycle get an error instead
+  // of a value.
+  private getEvaluationOrder(): string[] {
+    if (this.evaluationOrder) return this.evaluationOrder;
+
+    const order: string[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    for (const binding of this.bindings.values()) {
+      delete binding.cycle;
+    }
+
+    const visit = (id: string) => {
+      if (state.get(id) === 'done') return;
+
+      if (state.get(id) === 'visiting') {
+        const cycle = [...stack.slice(stack.indexOf(id)), id];
+        const error = `Circular binding: ${cycle.join(' → ')}`;
+        cycle.forEach((member) => {
+          this.bindings.get(member)!.cycle = error;
+        });
+        console.warn(error);
+        return;
+      }
+
+      state.set(id, 'visiting');
+      stack.push(id);
+
+      const binding = this.bindings.get(id)!;
+      for (const other of this.bindings.values()) {
+        if (binding.deps.some((dep) => pathsOverlap(dep, other.id))) {
+          visit(other.id);
+        }
+      }
+
+      stack.pop();
+      state.set(id, 'done');
+      order.push(id);
+    };
+
+    this.bindings.forEach((_, id) => visit(id));
+    this.evaluationOrder = order;
+    return order;
+  }
+
+  /**
+   * Validates every binding in a template; positions are offsets into the
+   * template, so unterminated `{{` and errors inside a binding can be
+   * highlighted in place.
+   */
+  validateTemplate(template: string): ExpressionValidation {
+    const { segments, error } = this.tokenize(template);
+    if (error) {
+      return { valid: false, error: `${error.message} at position ${error.start}`, start: error.start, end: error.end };
+    }
+
+    for (const segment of segments) {
+      if (segment.type !== 'expression') continue;
+
+      const result = this.validateExpression(segment.source);
+      if (!result.valid) {
+        if (result.start === undefined || result.end === undefined) return result;
+
+        const start = segment.start + result.start;
+        return {
+          valid: false,
+          error: result.error!.replace(/ at position \d+$/, ` at position ${start}`),
+          start,
+          end: segment.start + result.end
+        };
+      }
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Checks syntax only. Nothing is evaluated, so expressions that read
+   * runtime data or call actions can be validated in the editor.
+   */
+  validateExpression(expression: string): ExpressionValidation {
+    const ast = this.parse(expression);
+    if (ast instanceof ExpressionError) {
       return {
         valid: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        error: `${ast.message} at position ${ast.start}`,
+        start: ast.start,
+        end: ast.end
       };
     }
+    return { valid: true };
   }
 }
 
 export const expressionEngine = new ExpressionEngine();
+
+// Helper functions for binding state
+function toState(binding: Binding): BindingState {
+  const state: BindingState = { status: binding.status };
+  if ('value' in binding) state.value = binding.value;
+  if (binding.error) state.error = binding.error;
+  return state;
+}
+
+function sameState(a: BindingState, b: BindingState): boolean {
+  return a.status === b.status && a.value === b.value && a.error === b.error;
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return typeof (value as PromiseLike<unknown> | null)?.then === 'function';
+}
+
+function stringifyValue(value: unknown): string {
+  return value !== undefined && value !== null ? String(value) : '';
+}
+
+// Helper functions for dependency tracking
+function collectDependencies(node: ExpressionNode, deps: Set<string>, shadowed: Set<string>) {
+  const visit = (child: ExpressionNode) => collectDependencies(child, deps, shadowed);
+
+  switch (node.type) {
+    case 'Identifier':
+      if (isNamespace(node.name) && !shadowed.has(node.name)) deps.add(node.name);
+      return;
+    case 'MemberExpression': {
+      // Walk down to the root, remembering static property names
+      const path: string[] = [];
+      let current: ExpressionNode = node;
+      while (current.type === 'MemberExpression') {
+        const { property } = current;
+        if (property.type === 'Literal' && typeof property.value === 'string') {
+          path.unshift(property.value);
+        } else {
+          path.length = 0;
+          visit(property);
+        }
+        current = current.object;
+      }
+
+      if (current.type === 'Identifier' && isNamespace(current.name) && !shadowed.has(current.name)) {
+        deps.add([current.name, ...path.slice(0, 2)].join('.'));
+      } else {
+        visit(current);
+      }
+      return;
+    }
+    case 'ArrowFunction': {
+      const inner = new Set([...shadowed, ...node.params]);
+      collectDependencies(node.body, deps, inner);
+      return;
+    }
+    default:
+      forEachChild(node, visit);
+  }
+}
+
+// Ranges of `<namespace>.<key>` / `<namespace>["<key>"]` property names
+function collectKeyReferences(
+  node: ExpressionNode,
+  namespace: string,
+  key: string,
+  shadowed: Set<string>,
+  ranges: { start: number; end: number; quoted: boolean }[]
+) {
+  if (node.type === 'ArrowFunction') {
+    collectKeyReferences(node.body, namespace, key, new Set([...shadowed, ...node.params]), ranges);
+    return;
+  }
+
+  if (
+    node.type === 'MemberExpression' &&
+    node.object.type === 'Identifier' &&
+    node.object.name === namespace &&
+    !shadowed.has(namespace) &&
+    node.property.type === 'Literal' &&
+    node.property.value === key
+  ) {
+    ranges.push({ start: node.property.start, end: node.property.end, quoted: node.computed });
+  }
+
+  forEachChild(node, (child) => collectKeyReferences(child, namespace, key, shadowed, ranges));
+}
+
+function isNamespace(name: string): boolean {
+  return (NAMESPACES as readonly string[]).includes(name);
+}
+
+function pathsOverlap(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+}
+
+// Changed paths between two contexts, down to `namespace.key.property`
+function diffContext(prev: EvaluationContext, next: EvaluationContext): string[] {
+  const changed: string[] = [];
+
+  for (const namespace of NAMESPACES) {
+    const before = prev[namespace] || {};
+    const after = next[namespace] || {};
+    if (before === after) continue;
+
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const a = before[key];
+      const b = after[key];
+      if (a === b) continue;
+
+      if (isPlainObject(a) && isPlainObject(b)) {
+        for (const prop of new Set([...Object.keys(a), ...Object.keys(b)])) {
+          if (a[prop] !== b[prop]) changed.push(`${namespace}.${key}.${prop}`);
+        }
+      } else {
+        changed.push(`${namespace}.${key}`);
+      }
+    }
+  }
+
+  return changed;
+}
+
+// Immutably sets a dotted path, only where the parent objects already exist
+function setPath<T extends object>(target: T, path: string, value: unknown): T {
+  const [head, ...rest] = path.split('.');
+  const current = (target as Record<string, unknown>)[head];
+
+  if (rest.length === 0) {
+    return current === value ? target : { ...target, [head]: value };
+  }
+  if (!isPlainObject(current)) return target;
+
+  const updated = setPath(current, rest.join('.'), value);
+  return updated === current ? target : { ...target, [head]: updated };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,265 @@
+import { ExpressionError, ExpressionNode } from './ExpressionParser';
+
+export type Scope = Map<string, unknown>;
+
+// Properties that lead to constructors or prototypes, and from there to
+// `Function` and arbitrary code execution.
+export const BLOCKED_PROPERTIES = new Set([
+  'constructor',
+  'prototype',
+  '__proto__',
+  '__defineGetter__',
+  '__defineSetter__',
+  '__lookupGetter__',
+  '__lookupSetter__'
+]);
+
+// Globals available to every expression besides the context namespaces.
+// Object and Array only expose read-only helpers.
+export const SAFE_GLOBALS: Record<string, unknown> = {
+  Math,
+  JSON,
+  Number,
+  String,
+  Boolean,
+  Date,
+  Object: {
+    keys: Object.keys,
+    values: Object.values,
+    entries: Object.entries,
+    fromEntries: Object.fromEntries
+  },
+  Array: {
+    isArray: Array.isArray,
+    from: Array.from,
+    of: Array.of
+  },
+  parseInt,
+  parseFloat,
+  isNaN,
+  isFinite,
+  NaN,
+  Infinity
+};
+
+const CONSTRUCTABLE = new Set<unknown>([Date]);
+
+// Thrown by `?.` on a nullish value and caught by the enclosing chain
+const SHORT_CIRCUIT = Symbol('short-circuit');
+
+export function interpret(node: ExpressionNode, scope: Scope, source: string): unknown {
+  try {
+    return evaluateNode(node, scope, source);
+  } catch (error) {
+    if (error === SHORT_CIRCUIT) return undefined;
+    throw error;
+  }
+}
+
+function evaluateNode(node: ExpressionNode, scope: Scope, source: string): unknown {
+  const evaluate = (child: ExpressionNode) => evaluateNode(child, scope, source);
+
+  switch (node.type) {
+    case 'Literal':
+      return node.value;
+
+    case 'Identifier':
+      if (!scope.has(node.name)) {
+        throw new ExpressionError(`"${node.name}" is not defined`, node.start, node.end);
+      }
+      return scope.get(node.name);
+
+    case 'TemplateLiteral':
+      return node.quasis.reduce((text, quasi, index) => {
+        const expression = node.expressions[index];
+        return text + quasi + (expression ? String(evaluate(expression)) : '');
+      }, '');
+
+    case 'ArrayExpression':
+      return evaluateList(node.elements, evaluate);
+
+    case 'ObjectExpression': {
+      const result: Record<string, unknown> = {};
+      for (const property of node.properties) {
+        if (property.type === 'Property') {
+          if (BLOCKED_PROPERTIES.has(property.key)) {
+            throw new ExpressionError(`Property "${property.key}" is not allowed`, property.start, property.end);
+          }
+          result[property.key] = evaluate(property.value);
+        } else if (property.type === 'SpreadElement') {
+          Object.assign(result, evaluate(property.argument));
+        }
+      }
+      return result;
+    }
+
+    case 'ChainExpression':
+      try {
+        return evaluate(node.expression);
+      } catch (error) {
+        if (error === SHORT_CIRCUIT) return undefined;
+        throw error;
+      }
+
+    case 'MemberExpression': {
+      const object = evaluate(node.object);
+      return getProperty(object, evaluatePropertyKey(node, evaluate), node, source);
+    }
+
+    case 'CallExpression': {
+      let thisArg: unknown;
+      let fn: unknown;
+
+      if (node.callee.type === 'MemberExpression') {
+        thisArg = evaluate(node.callee.object);
+        fn = getProperty(thisArg, evaluatePropertyKey(node.callee, evaluate), node.callee, source);
+      } else {
+        fn = evaluate(node.callee);
+      }
+
+      if (fn === null || fn === undefined) {
+        if (node.optional) throw SHORT_CIRCUIT;
+      }
+      if (typeof fn !== 'function') {
+        throw new ExpressionError(
+          `${source.slice(node.callee.start, node.callee.end)} is not a function`,
+          node.callee.start,
+          node.callee.end
+        );
+      }
+
+      return fn.apply(thisArg, evaluateList(node.arguments, evaluate));
+    }
+
+    case 'NewExpression': {
+      const callee = evaluate(node.callee);
+      if (!CONSTRUCTABLE.has(callee)) {
+        throw new ExpressionError(
+          `"new" is only allowed with Date`,
+          node.start,
+          node.end
+        );
+      }
+      const Constructor = callee as DateConstructor;
+      return new Constructor(...(evaluateList(node.arguments, evaluate) as []));
+    }
+
+    case 'UnaryExpression': {
+      const value = evaluate(node.argument);
+      switch (node.operator) {
+        case '!': return !value;
+        case '-': return -(value as number);
+        case '+': return +(value as number);
+        case 'typeof': return typeof value;
+      }
+      break;
+    }
+
+    case 'BinaryExpression':
+      return evaluateBinary(node.operator, node.left, node.right, evaluate, source);
+
+    case 'ConditionalExpression':
+      return evaluate(node.test) ? evaluate(node.consequent) : evaluate(node.alternate);
+
+    case 'ArrowFunction':
+      return (...args: unknown[]) => {
+        const childScope: Scope = new Map(scope);
+        node.params.forEach((param, index) => childScope.set(param, args[index]));
+        return interpret(node.body, childScope, source);
+      };
+
+    case 'SpreadElement':
+      throw new ExpressionError('Unexpected spread', node.start, node.end);
+  }
+
+  throw new ExpressionError('Unsupported expression', node.start, node.end);
+}
+
+function evaluatePropertyKey(
+  node: Extract<ExpressionNode, { type: 'MemberExpression' }>,
+  evaluate: (node: ExpressionNode) => unknown
+): PropertyKey {
+  const key = evaluate(node.property);
+  return typeof key === 'symbol' || typeof key === 'number' ? key : String(key);
+}
+
+function getProperty(object: unknown, key: PropertyKey, node: ExpressionNode, source: string): unknown {
+  const optional = node.type === 'MemberExpression' && node.optional;
+
+  if (object === null || object === undefined) {
+    if (optional) throw SHORT_CIRCUIT;
+    const target = node.type === 'MemberExpression' ? source.slice(node.object.start, node.object.end) : 'value';
+    throw new ExpressionError(
+      `Cannot read "${String(key)}" of ${object === null ? 'null' : 'undefined'} (${target})`,
+      node.start,
+      node.end
+    );
+  }
+
+  if (typeof key === 'string' && BLOCKED_PROPERTIES.has(key)) {
+    const property = node.type === 'MemberExpression' ? node.property : node;
+    throw new ExpressionError(`Access to "${key}" is not allowed`, property.start, property.end);
+  }
+
+  return (object as Record<PropertyKey, unknown>)[key];
+}
+
+function evaluateList(nodes: ExpressionNode[], evaluate: (node: ExpressionNode) => unknown): unknown[] {
+  const values: unknown[] = [];
+  for (const node of nodes) {
+    if (node.type === 'SpreadElement') {
+      values.push(...(evaluate(node.argument) as Iterable<unknown>));
+    } else {
+      values.push(evaluate(node));
+    }
+  }
+  return values;
+}
+
+function evaluateBinary(
+  operator: string,
+  leftNode: ExpressionNode,
+  rightNode: ExpressionNode,
+  evaluate: (node: ExpressionNode) => unknown,
+  source: string
+): unknown {
+  const left = evaluate(leftNode);
+
+  // Short-circuit operators evaluate the right side lazily
+  if (operator === '&&') return left && evaluate(rightNode);
+  if (operator === '||') return left || evaluate(rightNode);
+  if (operator === '??') return left ?? evaluate(rightNode);
+
+  const right = evaluate(rightNode);
+  // Operands keep JavaScript semantics (string concatenation, coercion)
+  const l = left as number;
+  const r = right as number;
+
+  switch (operator) {
+    case '+': return l + r;
+    case '-': return l - r;
+    case '*': return l * r;
+    case '/': return l / r;
+    case '%': return l % r;
+    case '**': return l ** r;
+    case '==': return left == right;
+    case '!=': return left != right;
+    case '===': return left === right;
+    case '!==': return left !== right;
+    case '<': return l < r;
+    case '>': return l > r;
+    case '<=': return l <= r;
+    case '>=': return l >= r;
+    case 'in':
+      if (typeof right !== 'object' || right === null) {
+        throw new ExpressionError(
+          `Cannot use "in" on ${source.slice(rightNode.start, rightNode.end)}`,
+          rightNode.start,
+          rightNode.end
+        );
+      }
+      return String(left) in right;
+  }
+
+  throw new ExpressionError(`Unknown operator "${operator}"`, leftNode.start, rightNode.end);
+}
@@ -0,0 +1,755 @@
+/**
+ * Parser for the binding expression language: a side-effect free subset of
+ * JavaScript expressions (literals, member access, calls, operators,
+ * ternaries, arrow functions and template literals). Assignments,
+ * statements and keywords such as `function` or `this` are rejected.
+ */
+
+export class ExpressionError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.start = start;
+    this.end = end;
+  }
+}
+
+interface NodeBase {
+  start: number;
+  end: number;
+}
+
+export type ExpressionNode = NodeBase & (
+  | { type: 'Literal'; value: string | number | boolean | null | undefined }
+  | { type: 'Identifier'; name: string }
+  | { type: 'TemplateLiteral'; quasis: string[]; expressions: ExpressionNode[] }
+  | { type: 'ArrayExpression'; elements: ExpressionNode[] }
+  | { type: 'ObjectExpression'; properties: (ObjectProperty | ExpressionNode)[] }
+  | { type: 'SpreadElement'; argument: ExpressionNode }
+  | { type: 'MemberExpression'; object: ExpressionNode; property: ExpressionNode; computed: boolean; optional: boolean }
+  | { type: 'CallExpression'; callee: ExpressionNode; arguments: ExpressionNode[]; optional: boolean }
+  | { type: 'NewExpression'; callee: ExpressionNode; arguments: ExpressionNode[] }
+  | { type: 'ChainExpression'; expression: ExpressionNode }
+  | { type: 'UnaryExpression'; operator: string; argument: ExpressionNode }
+  | { type: 'BinaryExpression'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'ConditionalExpression'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'ArrowFunction'; params: string[]; body: ExpressionNode }
+);
+
+export interface ObjectProperty extends NodeBase {
+  type: 'Property';
+  key: string;
+  value: ExpressionNode;
+}
+
+interface Token {
+  type: 'number' | 'string' | 'template' | 'identifier' | 'punctuator' | 'eof';
+  value: string;
+  start: number;
+  end: number;
+  // Template literals: raw text segments and `${}` sources with offsets
+  quasis?: string[];
+  expressions?: { source: string; offset: number }[];
+}
+
+const PUNCTUATORS = [
+  '...', '===', '!==', '**', '=>', '==', '!=', '<=', '>=', '&&', '||', '??', '?.',
+  '(', ')', '[', ']', '{', '}', ',', ':', ';', '?', '.', '+', '-', '*', '/', '%', '<', '>', '!', '='
+];
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2,
+  '&&': 3,
+  '==': 4, '!=': 4, '===': 4, '!==': 4,
+  '<': 5, '>': 5, '<=': 5, '>=': 5, 'in': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+  '**': 8
+};
+
+const LITERAL_KEYWORDS: Record<string, string | number | boolean | null | undefined> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined
+};
+
+const RESERVED_WORDS = new Set([
+  'function', 'this', 'var', 'let', 'const', 'return', 'if', 'else', 'for', 'while', 'do',
+  'class', 'delete', 'void', 'yield', 'await', 'async', 'import', 'export', 'with', 'throw',
+  'try', 'catch', 'finally', 'switch', 'case', 'default', 'break', 'continue', 'debugger',
+  'super', 'instanceof'
+]);
+
+const ESCAPES: Record<string, string> = {
+  n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', v: '\v', '0': '\0'
+};
+
+export function parseExpression(source: string, offset: number = 0): ExpressionNode {
+  return new Parser(source, offset).parse();
+}
+
+/**
+ * Calls `visit` with each direct child expression of `node`.
+ */
+export function forEachChild(node: ExpressionNode, visit: (child: ExpressionNode) => void) {
+  switch (node.type) {
+    case 'TemplateLiteral':
+      node.expressions.forEach(visit);
+      return;
+    case 'ArrayExpression':
+      node.elements.forEach(visit);
+      return;
+    case 'ObjectExpression':
+      node.properties.forEach((property) => visit(property.type === 'Property' ? property.value : property));
+      return;
+    case 'SpreadElement':
+      visit(node.argument);
+      return;
+    case 'MemberExpression':
+      visit(node.object);
+      visit(node.property);
+      return;
+    case 'CallExpression':
+    case 'NewExpression':
+      visit(node.callee);
+      node.arguments.forEach(visit);
+      return;
+    case 'ChainExpression':
+      visit(node.expression);
+      return;
+    case 'UnaryExpression':
+      visit(node.argument);
+      return;
+    case 'BinaryExpression':
+      visit(node.left);
+      visit(node.right);
+      return;
+    case 'ConditionalExpression':
+      visit(node.test);
+      visit(node.consequent);
+      visit(node.alternate);
+      return;
+    case 'ArrowFunction':
+      visit(node.body);
+      return;
+  }
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string, private offset: number) {
+    this.tokens = tokenize(source, offset);
+  }
+
+  parse(): ExpressionNode {
+    if (this.peek().type === 'eof') {
+      throw new ExpressionError('Expression is empty', this.offset, this.offset + this.source.length);
+    }
+
+    const node = this.parseExpression();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw this.unexpected(token);
+    }
+    return node;
+  }
+
+  private peek(ahead: number = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private is(value: string, ahead: number = 0): boolean {
+    const token = this.peek(ahead);
+    return (token.type === 'punctuator' || token.type === 'identifier') && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    const token = this.peek();
+    if (!this.is(value)) {
+      throw new ExpressionError(
+        token.type === 'eof'
+          ? `Expected "${value}" but the expression ended`
+          : `Expected "${value}" but found "${token.value}"`,
+        token.start,
+        token.end
+      );
+    }
+    return this.next();
+  }
+
+  private unexpected(token: Token): ExpressionError {
+    if (token.type === 'eof') {
+      return new ExpressionError('Unexpected end of expression', token.start, token.end);
+    }
+    if (token.value === '=') {
+      return new ExpressionError('Assignment is not allowed in expressions', token.start, token.end);
+    }
+    return new ExpressionError(`Unexpected token "${token.value}"`, token.start, token.end);
+  }
+
+  private parseExpression(): ExpressionNode {
+    if (this.isArrowFunction()) {
+      return this.parseArrowFunction();
+    }
+
+    const test = this.parseBinary(1);
+    if (!this.is('?')) return test;
+
+    this.next();
+    const consequent = this.parseExpression();
+    this.expect(':');
+    const alternate = this.parseExpression();
+    return { type: 'ConditionalExpression', test, consequent, alternate, start: test.start, end: alternate.end };
+  }
+
+  private isArrowFunction(): boolean {
+    const token = this.peek();
+    if (token.type === 'identifier' && this.is('=>', 1)) return true;
+    if (!this.is('(')) return false;
+
+    // Scan to the matching paren and look for `=>`
+    let depth = 0;
+    for (let i = this.index; i < this.tokens.length; i++) {
+      const current = this.tokens[i];
+      if (current.type !== 'punctuator') continue;
+      if (current.value === '(') depth++;
+      if (current.value === ')' && --depth === 0) {
+        const after = this.tokens[i + 1];
+        return after?.type === 'punctuator' && after.value === '=>';
+      }
+    }
+    return false;
+  }
+
+  private parseArrowFunction(): ExpressionNode {
+    const start = this.peek().start;
+    const params: string[] = [];
+
+    if (this.is('(')) {
+      this.next();
+      while (!this.is(')')) {
+        params.push(this.parseParamName());
+        if (!this.is(')')) this.expect(',');
+      }
+      this.next();
+    } else {
+      params.push(this.parseParamName());
+    }
+
+    this.expect('=>');
+
+    // Block bodies may only contain a single `return`
+    if (this.is('{')) {
+      this.next();
+      if (!this.is('return')) {
+        const token = this.peek();
+        throw new ExpressionError(
+          'Arrow function blocks may only contain "return <expression>"; wrap object literals in parentheses',
+          token.start,
+          token.end
+        );
+      }
+      this.next();
+      const body = this.parseExpression();
+      if (this.is(';')) this.next();
+      const end = this.expect('}').end;
+      return { type: 'ArrowFunction', params, body, start, end };
+    }
+
+    const body = this.parseExpression();
+    return { type: 'ArrowFunction', params, body, start, end: body.end };
+  }
+
+  private parseParamName(): string {
+    const token = this.next();
+    if (token.type !== 'identifier' || token.value in LITERAL_KEYWORDS || RESERVED_WORDS.has(token.value)) {
+      throw new ExpressionError(`Invalid parameter name "${token.value}"`, token.start, token.end);
+    }
+    return token.value;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    const first = this.peek();
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const operator = token.value;
+      const precedence = (token.type === 'punctuator' || operator === 'in') ? BINARY_PRECEDENCE[operator] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) break;
+
+      // Like JavaScript, `-2 ** 2` is ambiguous; `(-2) ** 2` is fine
+      if (operator === '**' && left.type === 'UnaryExpression' && left.start === first.start) {
+        throw new ExpressionError(
+          'A unary operator before "**" needs parentheses, e.g. (-2) ** 2',
+          token.start,
+          token.end
+        );
+      }
+
+      this.next();
+      // `**` is right-associative
+      const right = this.parseBinary(operator === '**' ? precedence : precedence + 1);
+      left = { type: 'BinaryExpression', operator, left, right, start: left.start, end: right.end };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if ((token.type === 'punctuator' && ['!', '-', '+'].includes(token.value)) || this.is('typeof')) {
+      this.next();
+      const argument = this.parseUnary();
+      return { type: 'UnaryExpression', operator: token.value, argument, start: token.start, end: argument.end };
+    }
+
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode, allowCalls: boolean = true): ExpressionNode {
+    let current = node;
+    let isChain = false;
+
+    for (;;) {
+      if (this.is('.')) {
+        this.next();
+        current = this.parseProperty(current, false);
+      } else if (this.is('?.')) {
+        this.next();
+        isChain = true;
+        if (this.is('[')) {
+          current = this.parseComputedMember(current, true);
+        } else if (this.is('(') && allowCalls) {
+          current = this.parseCall(current, true);
+        } else {
+          current = this.parseProperty(current, true);
+        }
+      } else if (this.is('[')) {
+        current = this.parseComputedMember(current, false);
+      } else if (this.is('(') && allowCalls) {
+        current = this.parseCall(current, false);
+      } else {
+        break;
+      }
+    }
+
+    return isChain
+      ? { type: 'ChainExpression', expression: current, start: current.start, end: current.end }
+      : current;
+  }
+
+  private parseProperty(object: ExpressionNode, optional: boolean): ExpressionNode {
+    const token = this.next();
+    if (token.type !== 'identifier') {
+      throw new ExpressionError(`Expected a property name after "${optional ? '?.' : '.'}"`, token.start, token.end);
+    }
+
+    const property: ExpressionNode = { type: 'Literal', value: token.value, start: token.start, end: token.end };
+    return { type: 'MemberExpression', object, property, computed: false, optional, start: object.start, end: token.end };
+  }
+
+  private parseComputedMember(object: ExpressionNode, optional: boolean): ExpressionNode {
+    this.expect('[');
+    const property = this.parseExpression();
+    const end = this.expect(']').end;
+    return { type: 'MemberExpression', object, property, computed: true, optional, start: object.start, end };
+  }
+
+  private parseCall(callee: ExpressionNode, optional: boolean): ExpressionNode {
+    const { items, end } = this.parseList('(', ')');
+    return { type: 'CallExpression', callee, arguments: items, optional, start: callee.start, end };
+  }
+
+  // Comma-separated expressions (with spread) between `open` and `close`
+  private parseList(open: string, close: string): { items: ExpressionNode[]; end: number } {
+    this.expect(open);
+    const items: ExpressionNode[] = [];
+
+    while (!this.is(close)) {
+      items.push(this.parseSpreadOr(() => this.parseExpression()));
+      if (!this.is(close)) this.expect(',');
+    }
+
+    return { items, end: this.next().end };
+  }
+
+  private parseSpreadOr(parse: () => ExpressionNode): ExpressionNode {
+    if (!this.is('...')) return parse();
+
+    const start = this.next().start;
+    const argument = this.parseExpression();
+    return { type: 'SpreadElement', argument, start, end: argument.end };
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.next();
+        return { type: 'Literal', value: Number(token.value), start: token.start, end: token.end };
+
+      case 'string':
+        this.next();
+        return { type: 'Literal', value: token.value, start: token.start, end: token.end };
+
+      case 'template':
+        this.next();
+        return {
+          type: 'TemplateLiteral',
+          quasis: token.quasis!,
+          expressions: token.expressions!.map(({ source, offset }) => parseExpression(source, offset)),
+          start: token.start,
+          end: token.end
+        };
+
+      case 'identifier':
+        return this.parseIdentifier();
+
+      case 'punctuator':
+        if (token.value === '(') {
+          this.next();
+          const expression = this.parseExpression();
+          this.expect(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          const { items, end } = this.parseList('[', ']');
+          return { type: 'ArrayExpression', elements: items, start: token.start, end };
+        }
+        if (token.value === '{') {
+          return this.parseObject();
+        }
+    }
+
+    throw this.unexpected(token);
+  }
+
+  private parseIdentifier(): ExpressionNode {
+    const token = this.next();
+
+    if (token.value in LITERAL_KEYWORDS) {
+      return { type: 'Literal', value: LITERAL_KEYWORDS[token.value], start: token.start, end: token.end };
+    }
+
+    if (token.value === 'new') {
+      const callee = this.parsePostfix(this.parseIdentifierOnly(), false);
+      const { items, end } = this.is('(') ? this.parseList('(', ')') : { items: [], end: callee.end };
+      return { type: 'NewExpression', callee, arguments: items, start: token.start, end };
+    }
+
+    if (RESERVED_WORDS.has(token.value)) {
+      throw new ExpressionError(`"${token.value}" is not allowed in expressions`, token.start, token.end);
+    }
+
+    return { type: 'Identifier', name: token.value, start: token.start, end: token.end };
+  }
+
+  private parseIdentifierOnly(): ExpressionNode {
+    const token = this.peek();
+    if (token.type !== 'identifier') throw this.unexpected(token);
+    return this.parseIdentifier();
+  }
+
+  private parseObject(): ExpressionNode {
+    const start = this.expect('{').start;
+    const properties: (ObjectProperty | ExpressionNode)[] = [];
+
+    while (!this.is('}')) {
+      if (this.is('...')) {
+        properties.push(this.parseSpreadOr(() => this.parseExpression()));
+      } else {
+        const token = this.next();
+        if (!['identifier', 'string', 'number'].includes(token.type)) {
+          throw new ExpressionError(`Unexpected token "${token.value}" in object literal`, token.start, token.end);
+        }
+
+        if (token.type === 'identifier' && (this.is(',') || this.is('}'))) {
+          // Shorthand `{ name }`
+          const value: ExpressionNode = { type: 'Identifier', name: token.value, start: token.start, end: token.end };
+          properties.push({ type: 'Property', key: token.value, value, start: token.start, end: token.end });
+        } else {
+          this.expect(':');
+          const value = this.parseExpression();
+          properties.push({ type: 'Property', key: token.value, value, start: token.start, end: value.end });
+        }
+      }
+
+      if (!this.is('}')) this.expect(',');
+    }
+
+    return { type: 'ObjectExpression', properties, start, end: this.next().end };
+  }
+}
+
+function tokenize(source: string, offset: number): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const error = (message: string, start: number, end: number = start + 1) =>
+    new ExpressionError(message, offset + start, offset + end);
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^(0[xX][0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/.exec(source.slice(i))!;
+      i += match[0].length;
+      if (/[A-Za-z_$]/.test(source[i] || '')) {
+        throw error(`Invalid number "${source.slice(start, i + 1)}"`, start, i + 1);
+      }
+      tokens.push({ type: 'number', value: match[0], start: offset + start, end: offset + i });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      while (i < source.length && /[\w$]/.test(source[i])) i++;
+      tokens.push({ type: 'identifier', value: source.slice(start, i), start: offset + start, end: offset + i });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\') {
+          const escaped = source[i + 1];
+          value += ESCAPES[escaped] ?? escaped ?? '';
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw error('Unterminated string', start, source.length);
+      }
+      i++;
+      tokens.push({ type: 'string', value, start: offset + start, end: offset + i });
+      continue;
+    }
+
+    if (char === '`') {
+      const quasis: string[] = [];
+      const expressions: { source: string; offset: number }[] = [];
+      let text = '';
+      i++;
+
+      while (i < source.length && source[i] !== '`') {
+        if (source[i] === '\\') {
+          const escaped = source[i + 1];
+          text += ESCAPES[escaped] ?? escaped ?? '';
+          i += 2;
+        } else if (source[i] === '$' && source[i + 1] === '{') {
+          const exprStart = i + 2;
+          const exprEnd = findClosingBrace(source, exprStart);
+          if (exprEnd === -1) {
+            throw error('Unterminated "${" in template literal', i, source.length);
+          }
+          quasis.push(text);
+          text = '';
+          expressions.push({ source: source.slice(exprStart, exprEnd), offset: offset + exprStart });
+          i = exprEnd + 1;
+        } else {
+          text += source[i++];
+        }
+      }
+      if (i >= source.length) {
+        throw error('Unterminated template literal', start, source.length);
+      }
+      i++;
+      quasis.push(text);
+      tokens.push({
+        type: 'template',
+        value: source.slice(start, i),
+        start: offset + start,
+        end: offset + i,
+        quasis,
+        expressions
+      });
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, i));
+    if (punctuator && !(punctuator === '?.' && /[0-9]/.test(source[i + 2] || ''))) {
+      i += punctuator.length;
+      tokens.push({ type: 'punctuator', value: punctuator, start: offset + start, end: offset + i });
+      continue;
+    }
+    if (char === '?') {
+      i++;
+      tokens.push({ type: 'punctuator', value: '?', start: offset + start, end: offset + i });
+      continue;
+    }
+
+    throw error(`Unexpected character "${char}"`, start);
+  }
+
+  tokens.push({ type: 'eof', value: '', start: offset + source.length, end: offset + source.length });
+  return tokens;
+}
+
+// Index of the `}` closing a `${` in a template literal, skipping nested
+// braces and strings; -1 if there is none.
+function findClosingBrace(source: string, from: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = from; i < source.length; i++) {
+    const char = source[i];
+
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') quote = char;
+    else if (char === '{') depth++;
+    else if (char === '}') {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+
+  return -1;
+}
+
+export type TemplateSegment =
+  | { type: 'text'; value: string }
+  | { type: 'expression'; source: string; start: number; end: number };
+
+export interface TemplateTokens {
+  segments: TemplateSegment[];
+  // Set when a `{{` is never closed; the rest is kept as text
+  error?: ExpressionError;
+}
+
+/**
+ * Splits a template into text and `{{ }}` bindings. Braces inside a binding
+ * are balanced, and strings, template literals and escapes are skipped, so
+ * `{{ {a: 1}.a }}` and `{{ `${x}` }}` work. `\{{` produces a literal `{{`.
+ */
+export function tokenizeTemplate(template: string): TemplateTokens {
+  const segments: TemplateSegment[] = [];
+  let text = '';
+  let i = 0;
+
+  const flushText = () => {
+    if (text) segments.push({ type: 'text', value: text });
+    text = '';
+  };
+
+  while (i < template.length) {
+    if (template.startsWith('\\{{', i)) {
+      text += '{{';
+      i += 3;
+      continue;
+    }
+
+    if (!template.startsWith('{{', i)) {
+      text += template[i++];
+      continue;
+    }
+
+    const start = i + 2;
+    const end = findBindingEnd(template, start);
+    if (typeof end !== 'number') {
+      text += template.slice(i);
+      flushText();
+      return { segments, error: end };
+    }
+
+    flushText();
+    const raw = template.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    segments.push({
+      type: 'expression',
+      source: raw.trim(),
+      start: start + leading,
+      end: start + leading + raw.trim().length
+    });
+    i = end + 2;
+  }
+
+  flushText();
+  return { segments };
+}
+
+// Index of the `}}` that closes a binding starting at `from`, or an error
+function findBindingEnd(template: string, from: number): number | ExpressionError {
+  // Each entry is a code block (with its brace depth) or a template literal
+  const stack: ({ type: 'code'; depth: number } | { type: 'template' })[] = [{ type: 'code', depth: 0 }];
+  let i = from;
+
+  while (i < template.length) {
+    const char = template[i];
+    const top = stack[stack.length - 1];
+
+    if (top.type === 'template') {
+      if (char === '\\') {
+        i += 2;
+      } else if (char === '`') {
+        stack.pop();
+        i++;
+      } else if (char === '$' && template[i + 1] === '{') {
+        stack.push({ type: 'code', depth: 0 });
+        i += 2;
+      } else {
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const stringStart = i++;
+      while (i < template.length && template[i] !== char) {
+        i += template[i] === '\\' ? 2 : 1;
+      }
+      if (i >= template.length) {
+        return new ExpressionError('Unterminated string in binding', stringStart, template.length);
+      }
+      i++;
+    } else if (char === '`') {
+      stack.push({ type: 'template' });
+      i++;
+    } else if (char === '{') {
+      top.depth++;
+      i++;
+    } else if (char === '}') {
+      if (top.depth > 0) {
+        top.depth--;
+      } else if (stack.length > 1) {
+        // End of a `${}` inside a template literal
+        stack.pop();
+      } else if (template[i + 1] === '}') {
+        return i;
+      }
+      i++;
+    } else {
+      i++;
+    }
+  }
+
+  return new ExpressionError('Unterminated binding: missing "}}"', from - 2, template.length);
+}
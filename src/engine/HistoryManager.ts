@@ -1,34 +1,227 @@
 import { ComponentData } from '../types';
 
+// Entries with a target update that page or data record instead of a component
+export type HistoryTarget = 'page' | 'api' | 'sqlQuery' | 'workflow';
+
 export interface HistoryEntry {
   id: string;
   timestamp: number;
-  action: 'add' | 'update' | 'delete' | 'move' | 'resize';
+  action: 'add' | 'update' | 'delete' | 'move' | 'resize' | 'batch';
+  label?: string;
+  pageId?: string;
   componentId?: string;
+  target?: HistoryTarget;
+  targetId?: string;
+  index?: number;
   before?: any;
   after?: any;
+  entries?: HistoryEntry[];
+}
+
+/**
+ * A redo path that was abandoned by recording a new entry after an undo.
+ * `forkIndex` is the index of the last entry it shares with the main
+ * timeline (-1 when it forks from the initial state).
+ */
+export interface HistoryBranch {
+  id: string;
+  forkIndex: number;
+  entries: HistoryEntry[];
+  createdAt: number;
 }
 
+export interface HistorySnapshot {
+  entries: HistoryEntry[];
+  currentIndex: number;
+  branches: HistoryBranch[];
+}
+
+export interface HistoryStep {
+  entry: HistoryEntry;
+  direction: 'undo' | 'redo';
+}
+
+type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'timestamp'>;
+
+const POSITION_KEYS = ['x', 'y'];
+const SIZE_KEYS = ['x', 'y', 'width', 'height'];
+
 export class HistoryManager {
   private history: HistoryEntry[] = [];
+  private branches: HistoryBranch[] = [];
   private currentIndex: number = -1;
+  private revision: number = 0;
   private maxHistorySize: number = 50;
+  private mergeWindow: number = 1000;
+  private transactionDepth: number = 0;
+  private transactionLabel?: string;
+  private pendingEntries: HistoryEntry[] = [];
+  private pageId?: string;
 
-  addEntry(entry: Omit<HistoryEntry, 'id' | 'timestamp'>): void {
-    this.history = this.history.slice(0, this.currentIndex + 1);
+  /**
+   * Sets the page that newly recorded entries belong to, so undo/redo can
+   * apply them to the right page after switching.
+   */
+  setPage(pageId: string): void {
+    this.pageId = pageId;
+  }
 
+  addEntry(entry: NewHistoryEntry, options: { merge?: boolean } = {}): void {
     const newEntry: HistoryEntry = {
       ...entry,
+      label: entry.label ?? describeEntries([entry]),
+      pageId: entry.pageId ?? this.pageId,
       id: crypto.randomUUID(),
       timestamp: Date.now()
     };
 
-    this.history.push(newEntry);
+    if (this.transactionDepth > 0) {
+      const last = this.pendingEntries[this.pendingEntries.length - 1];
+      if (last && canMerge(last, newEntry)) {
+        this.pendingEntries[this.pendingEntries.length - 1] = mergeEntries(last, newEntry);
+      } else {
+        this.pendingEntries.push(newEntry);
+      }
+      return;
+    }
 
-    if (this.history.length > this.maxHistorySize) {
-      this.history.shift();
-    } else {
-      this.currentIndex++;
+    const last = this.history[this.currentIndex];
+    if (
+      options.merge &&
+      last &&
+      this.currentIndex === this.history.length - 1 &&
+      newEntry.timestamp - last.timestamp <= this.mergeWindow &&
+      canMerge(last, newEntry)
+    ) {
+      this.history[this.currentIndex] = mergeEntries(last, newEntry);
+      this.revision++;
+      return;
+    }
+
+    this.pushEntry(newEntry);
+  }
+
+  private pushEntry(entry: HistoryEntry): void {
+    this.detachRedoTail();
+    this.history.push(entry);
+    this.currentIndex++;
+    this.trimHistory();
+    this.revision++;
+  }
+
+  // Drops the oldest entries beyond maxHistorySize, and the branches that
+  // forked off them
+  private trimHistory(): void {
+    const excess = this.history.length - this.maxHistorySize;
+    if (excess <= 0) return;
+
+    this.history = this.history.slice(excess);
+    this.currentIndex = Math.max(-1, this.currentIndex - excess);
+    this.branches = this.branches
+      .map(branch => ({ ...branch, forkIndex: branch.forkIndex - excess }))
+      .filter(branch => branch.forkIndex >= -1);
+  }
+
+  // Keeps the entries after currentIndex as an alternate branch instead of
+  // discarding them. Branches that forked off the detached tail are
+  // re-rooted at currentIndex so every branch hangs off the main timeline.
+  private detachRedoTail(): void {
+    const forkIndex = this.currentIndex;
+    const tail = this.history.slice(forkIndex + 1);
+    if (tail.length === 0) return;
+
+    this.branches = this.branches.map(branch => {
+      if (branch.forkIndex <= forkIndex) return branch;
+      return {
+        ...branch,
+        forkIndex,
+        entries: [...this.history.slice(forkIndex + 1, branch.forkIndex + 1), ...branch.entries]
+      };
+    });
+
+    this.branches.push({
+      id: crypto.randomUUID(),
+      forkIndex,
+      entries: tail,
+      createdAt: Date.now()
+    });
+    this.history = this.history.slice(0, forkIndex + 1);
+    this.pruneBranches();
+  }
+
+  // Branches share the main timeline's size limit: each is cut to it, then
+  // the oldest branches go until their entries fit in it together.
+  private pruneBranches(): void {
+    let total = 0;
+    this.branches = this.branches
+      .map(branch => branch.entries.length > this.maxHistorySize
+        ? { ...branch, entries: branch.entries.slice(0, this.maxHistorySize) }
+        : branch)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .filter(branch => {
+        total += branch.entries.length;
+        return total <= this.maxHistorySize;
+      })
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Opens a transaction: every entry recorded until the matching
+   * commitTransaction() collapses into a single undo step. Transactions nest;
+   * only the outermost commit writes to the history.
+   */
+  beginTransaction(label?: string): void {
+    if (this.transactionDepth === 0) {
+      this.pendingEntries = [];
+      this.transactionLabel = label;
+    }
+    this.transactionDepth++;
+  }
+
+  commitTransaction(label?: string): HistoryEntry | null {
+    if (this.transactionDepth === 0) {
+      return null;
+    }
+
+    this.transactionDepth--;
+    if (this.transactionDepth > 0) {
+      return null;
+    }
+
+    const entries = this.pendingEntries;
+    const finalLabel = label ?? this.transactionLabel;
+    this.pendingEntries = [];
+    this.transactionLabel = undefined;
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    const entry: HistoryEntry = entries.length === 1
+      ? { ...entries[0], label: finalLabel ?? entries[0].label }
+      : {
+          id: crypto.randomUUID(),
+          timestamp: Date.now(),
+          action: 'batch',
+          label: finalLabel ?? describeEntries(entries),
+          pageId: entries[0].pageId,
+          entries
+        };
+
+    this.pushEntry(entry);
+    return entry;
+  }
+
+  isInTransaction(): boolean {
+    return this.transactionDepth > 0;
+  }
+
+  transaction<T>(label: string | undefined, fn: () => T): T {
+    this.beginTransaction(label);
+    try {
+      return fn();
+    } finally {
+      this.commitTransaction();
     }
   }
 
@@ -47,6 +240,7 @@ export class HistoryManager {
 
     const entry = this.history[this.currentIndex];
     this.currentIndex--;
+    this.revision++;
     return entry;
   }
 
@@ -57,12 +251,56 @@ export class HistoryManager {
 
     this.currentIndex++;
     const entry = this.history[this.currentIndex];
+    this.revision++;
     return entry;
   }
 
+  /**
+   * Moves the timeline to `index` (-1 is the initial state) and returns the
+   * undo/redo steps the caller must apply, in order.
+   */
+  jumpTo(index: number): HistoryStep[] {
+    const target = Math.max(-1, Math.min(index, this.history.length - 1));
+    const steps: HistoryStep[] = [];
+
+    while (this.currentIndex > target) {
+      steps.push({ entry: this.undo()!, direction: 'undo' });
+    }
+    while (this.currentIndex < target) {
+      steps.push({ entry: this.redo()!, direction: 'redo' });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Makes an alternate branch the main timeline and replays it to its last
+   * entry. The path that was active past the fork point becomes a branch.
+   */
+  checkoutBranch(branchId: string): HistoryStep[] {
+    const branch = this.branches.find(b => b.id === branchId);
+    if (!branch) return [];
+
+    const steps = this.jumpTo(branch.forkIndex);
+
+    this.branches = this.branches.filter(b => b.id !== branchId);
+    this.detachRedoTail();
+    this.history = [...this.history, ...branch.entries];
+    this.revision++;
+
+    const replayed = [...steps, ...this.jumpTo(this.history.length - 1)];
+    this.trimHistory();
+    return replayed;
+  }
+
   clear(): void {
     this.history = [];
+    this.branches = [];
     this.currentIndex = -1;
+    this.revision++;
+    this.transactionDepth = 0;
+    this.transactionLabel = undefined;
+    this.pendingEntries = [];
   }
 
   getHistory(): HistoryEntry[] {
@@ -73,6 +311,30 @@ export class HistoryManager {
     return this.currentIndex;
   }
 
+  getBranches(): HistoryBranch[] {
+    return [...this.branches];
+  }
+
+  getRevision(): number {
+    return this.revision;
+  }
+
+  serialize(): HistorySnapshot {
+    return {
+      entries: [...this.history],
+      currentIndex: this.currentIndex,
+      branches: [...this.branches]
+    };
+  }
+
+  restore(snapshot: HistorySnapshot): void {
+    this.clear();
+    this.history = [...snapshot.entries];
+    this.branches = [...(snapshot.branches || [])];
+    this.pruneBranches();
+    this.currentIndex = Math.max(-1, Math.min(snapshot.currentIndex, this.history.length - 1));
+  }
+
   recordComponentAdd(component: ComponentData): void {
     this.addEntry({
       action: 'add',
@@ -87,13 +349,14 @@ export class HistoryManager {
       componentId,
       before,
       after
-    });
+    }, { merge: true });
   }
 
-  recordComponentDelete(component: ComponentData): void {
+  recordComponentDelete(component: ComponentData, index?: number): void {
     this.addEntry({
       action: 'delete',
       componentId: component.id,
+      index,
       before: component
     });
   }
@@ -121,4 +384,92 @@ export class HistoryManager {
   }
 }
 
+// Two entries merge when they touch the same component and the same set of
+// changed keys, e.g. successive keystrokes in one property field or the
+// mouse moves of a single drag.
+function canMerge(previous: HistoryEntry, next: HistoryEntry): boolean {
+  if (previous.pageId !== next.pageId) return false;
+  if (previous.componentId !== next.componentId) return false;
+  if (previous.target !== next.target || previous.targetId !== next.targetId) return false;
+  if (previous.action !== next.action) return false;
+  if (!['update', 'move', 'resize'].includes(next.action)) return false;
+
+  return getChangedKeys(previous).join('|') === getChangedKeys(next).join('|');
+}
+
+function mergeEntries(previous: HistoryEntry, next: HistoryEntry): HistoryEntry {
+  return {
+    ...next,
+    id: previous.id,
+    before: { ...next.before, ...previous.before },
+    after: { ...previous.after, ...next.after }
+  };
+}
+
+function getChangedKeys(entry: HistoryEntry): string[] {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  const keys: string[] = [];
+
+  for (const key of Object.keys(after)) {
+    const previousValue = before[key];
+    const nextValue = after[key];
+
+    if (isPlainObject(previousValue) && isPlainObject(nextValue)) {
+      for (const subKey of new Set([...Object.keys(previousValue), ...Object.keys(nextValue)])) {
+        if (previousValue[subKey] !== nextValue[subKey]) {
+          keys.push(`${key}.${subKey}`);
+        }
+      }
+    } else {
+      keys.push(key);
+    }
+  }
+
+  return keys.sort();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getEntryVerb(entry: NewHistoryEntry): string {
+  switch (entry.action) {
+    case 'add':
+      return 'Add';
+    case 'delete':
+      return 'Delete';
+    case 'move':
+      return 'Move';
+    case 'resize':
+      return 'Resize';
+    case 'batch': {
+      const verbs = new Set((entry.entries || []).map(getEntryVerb));
+      return verbs.size === 1 ? [...verbs][0] : 'Edit';
+    }
+    case 'update': {
+      const keys = Object.keys(entry.after || {});
+      if (keys.length > 0 && keys.every(key => POSITION_KEYS.includes(key))) return 'Move';
+      if (keys.length > 0 && keys.every(key => SIZE_KEYS.includes(key))) return 'Resize';
+      return 'Update';
+    }
+  }
+}
+
+function collectComponentIds(entries: NewHistoryEntry[], ids: Set<string> = new Set()): Set<string> {
+  for (const entry of entries) {
+    if (entry.componentId) ids.add(entry.componentId);
+    if (entry.entries) collectComponentIds(entry.entries, ids);
+  }
+  return ids;
+}
+
+export function describeEntries(entries: NewHistoryEntry[]): string {
+  const verbs = new Set(entries.map(getEntryVerb));
+  const verb = verbs.size === 1 ? [...verbs][0] : 'Edit';
+  const count = collectComponentIds(entries).size;
+
+  return `${verb} ${count} component${count === 1 ? '' : 's'}`;
+}
+
 export const historyManager = new HistoryManager();
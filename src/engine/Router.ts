@@ -0,0 +1,227 @@
+import { AppPage } from '../types';
+import { EvaluationContext, expressionEngine } from './ExpressionEngine';
+
+export interface RouteLocation {
+  path: string;
+  query: Record<string, string>;
+}
+
+export interface RouteMatch {
+  page: AppPage;
+  params: Record<string, string>;
+}
+
+export type RouterListener = (location: RouteLocation) => void;
+
+const decode = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+export function normalizePath(path: string): string {
+  const trimmed = path.replace(/\/+$/, '');
+  return trimmed.startsWith('/') ? trimmed || '/' : `/${trimmed}`;
+}
+
+/**
+ * Splits `/orders/5?tab=items` into its path and query. `query` is merged
+ * over the query string.
+ */
+export function parseLocation(target: string, query: Record<string, string> = {}): RouteLocation {
+  const [pathAndSearch] = target.split('#');
+  const [path, search = ''] = pathAndSearch.split('?');
+  const parsed: Record<string, string> = {};
+  new URLSearchParams(search).forEach((value, key) => {
+    parsed[key] = value;
+  });
+  return { path: normalizePath(path), query: { ...parsed, ...query } };
+}
+
+export function formatLocation(location: RouteLocation): string {
+  const search = new URLSearchParams(location.query).toString();
+  return search ? `${location.path}?${search}` : location.path;
+}
+
+/**
+ * Matches a path against a route such as `/orders/:id`. Returns the decoded
+ * params, or null when the path doesn't fit the route.
+ */
+export function matchRoute(route: string, path: string): Record<string, string> | null {
+  const routeSegments = normalizePath(route).split('/').filter(Boolean);
+  const pathSegments = normalizePath(path).split('/').filter(Boolean);
+  if (routeSegments.length !== pathSegments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (const [index, segment] of routeSegments.entries()) {
+    if (segment.startsWith(':')) {
+      params[segment.slice(1)] = decode(pathSegments[index]);
+    } else if (segment !== pathSegments[index]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+// Routes with more fixed segments win, so `/orders/new` beats `/orders/:id`
+const staticSegments = (route: string) =>
+  normalizePath(route).split('/').filter((segment) => segment && !segment.startsWith(':')).length;
+
+/**
+ * Finds the page a path leads to: by route, then `/` to the home page, then
+ * by page name or id so `navigate` to "Settings" works for pages without a
+ * route.
+ */
+export function resolvePage(pages: AppPage[], path: string): RouteMatch | null {
+  const routed = pages
+    .filter((page) => page.route)
+    .sort((a, b) => staticSegments(b.route!) - staticSegments(a.route!));
+
+  for (const page of routed) {
+    const params = matchRoute(page.route!, path);
+    if (params) return { page, params };
+  }
+
+  const normalized = normalizePath(path);
+  if (normalized === '/') {
+    const home = pages.find((page) => page.isHomePage);
+    if (home) return { page: home, params: {} };
+  }
+
+  const name = decode(normalized.slice(1));
+  const named = pages.find((page) => page.id === name || page.name === name);
+  return named ? { page: named, params: {} } : null;
+}
+
+// `/orders/:id` and `/orders/:orderId` match the same paths, so they share a shape
+const routeShape = (route: string) =>
+  normalizePath(route).split('/').map((segment) => (segment.startsWith(':') ? ':' : segment)).join('/');
+
+/**
+ * Checks a route's syntax. Returns the problem, or null when the route is
+ * usable. An empty route is valid: the page is then reached by name.
+ */
+export function validateRoute(route: string): string | null {
+  if (!route) return null;
+  if (!route.startsWith('/')) return 'Route must start with /';
+  if (/[\s?#]/.test(route)) return 'Route cannot contain spaces, ? or #';
+
+  const segments = normalizePath(route).split('/').slice(1);
+  if (segments.some((segment) => !segment) && route !== '/') return 'Route cannot contain empty segments';
+
+  const params = new Set<string>();
+  for (const segment of segments.filter((s) => s.startsWith(':'))) {
+    const name = segment.slice(1);
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) return `Invalid parameter "${segment}"`;
+    if (params.has(name)) return `Parameter "${segment}" is used twice`;
+    params.add(name);
+  }
+  return null;
+}
+
+/**
+ * Returns the other page whose route matches the same paths as `route`,
+ * if any.
+ */
+export function findRouteConflict(pages: AppPage[], route: string, pageId: string): AppPage | undefined {
+  if (!route) return undefined;
+  const shape = routeShape(route);
+  return pages.find((page) => page.id !== pageId && page.route && routeShape(page.route) === shape);
+}
+
+/**
+ * Builds a route from a page name (`Order Details` to `/order-details`),
+ * with a numeric suffix when another page already uses it.
+ */
+export function routeFromName(pages: AppPage[], name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'page';
+  let route = `/${slug}`;
+  for (let n = 2; findRouteConflict(pages, route, ''); n++) {
+    route = `/${slug}-${n}`;
+  }
+  return route;
+}
+
+/**
+ * Evaluates a page's access condition. `context` (usually the entered page's
+ * `page` and the current `store`) is written into the expression context
+ * first, since the page is about to render with it anyway. Pages without a
+ * condition are open; a condition that fails to evaluate denies access.
+ */
+export async function checkPageAccess(page: AppPage, context: Partial<EvaluationContext>): Promise<boolean> {
+  const condition = page.access?.condition?.trim();
+  if (!condition) return true;
+  expressionEngine.updateContext(context);
+  try {
+    return Boolean(await expressionEngine.evaluateValueAsync(condition));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * In-memory history for the runtime, so navigating in Preview never touches
+ * the builder's own URL.
+ */
+export class Router {
+  private entries: RouteLocation[] = [{ path: '/', query: {} }];
+  private index = 0;
+  private listeners = new Set<RouterListener>();
+
+  reset(location: RouteLocation) {
+    this.entries = [location];
+    this.index = 0;
+    this.notify();
+  }
+
+  navigate(location: RouteLocation, replace = false) {
+    if (replace) {
+      this.entries[this.index] = location;
+    } else {
+      // Navigating after going back drops the forward entries, like a browser
+      this.entries = [...this.entries.slice(0, this.index + 1), location];
+      this.index++;
+    }
+    this.notify();
+  }
+
+  back() {
+    if (!this.canGoBack()) return;
+    this.index--;
+    this.notify();
+  }
+
+  forward() {
+    if (!this.canGoForward()) return;
+    this.index++;
+    this.notify();
+  }
+
+  canGoBack(): boolean {
+    return this.index > 0;
+  }
+
+  canGoForward(): boolean {
+    return this.index < this.entries.length - 1;
+  }
+
+  getLocation(): RouteLocation {
+    return this.entries[this.index];
+  }
+
+  subscribe(listener: RouterListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const location = this.getLocation();
+    this.listeners.forEach((listener) => listener(location));
+  }
+}
+
+export const router = new Router();
@@ -1,82 +1,314 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { ComponentData, AppPage } from '../types';
-import { expressionEngine, EvaluationContext } from './ExpressionEngine';
-import { actionManager } from './ActionManager';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import { ComponentData, AppPage, EventAction, TableProps } from '../types';
+import { expressionEngine, EvaluationContext, BindingState } from './ExpressionEngine';
+import { actionManager, ConfirmRequest } from './ActionManager';
+import { dataActionBridge } from './DataActions';
 import { RenderComponent } from '../components/canvas/RenderComponent';
+import { ToastHost } from '../components/ToastHost';
+import { ConfirmDialog } from '../components/ConfirmDialog';
+import { actionConfigToSteps, ROW_ACTION_EVENT } from './ComponentEvents';
+import { useAppStore } from '../store/useAppStore';
 
 interface RuntimeRendererProps {
   page: AppPage;
   components: ComponentData[];
+  // Route params and query string of the current location, as `page.params` / `page.query`
+  params?: Record<string, string>;
+  query?: Record<string, string>;
+  // Shown when the page has no components; its lifecycle, polling and toasts still run
+  emptyState?: React.ReactNode;
 }
 
-export const RuntimeRenderer: React.FC<RuntimeRendererProps> = ({ page, components }) => {
+const NO_VALUES: Record<string, string> = {};
+
+// Polling faster than this would mostly hammer the API
+const MIN_POLL_INTERVAL = 1000;
+
+// Widgets that render their own spinner from a `loading` prop
+const NATIVE_LOADING_TYPES = ['button', 'select'];
+
+// Props such as `onClick` hold `{{ }}` handlers that run on the event, not on render
+const isEventProp = (key: string) => /^on[A-Z]/.test(key);
+
+// Events whose actions show the widget as loading until they finish
+const LOADING_EVENTS = ['onClick', 'onSubmit'];
+
+interface PendingConfirmation {
+  request: ConfirmRequest;
+  resolve: (confirmed: boolean) => void;
+}
+
+export const RuntimeRenderer: React.FC<RuntimeRendererProps> = ({
+  page,
+  components,
+  params = NO_VALUES,
+  query = NO_VALUES,
+  emptyState
+}) => {
   const [widgetsState, setWidgetsState] = useState<Record<string, any>>({});
-  const [refreshKey, setRefreshKey] = useState(0);
+  const [bindingStates, setBindingStates] = useState<Record<string, BindingState>>({});
+  const [runningHandlers, setRunningHandlers] = useState<Record<string, number>>({});
+  const [confirmations, setConfirmations] = useState<PendingConfirmation[]>([]);
+  const globalState = useAppStore((state) => state.globalState);
+  const route = useRef({ params, query });
+  route.current = { params, query };
+  const currentPage = useRef(page);
+  currentPage.current = page;
+  // State widgets published since the components were set up; widgets publish on
+  // mount, before the effect below builds the initial state
+  const published = useRef<Record<string, Record<string, unknown>>>({});
+
+  const updateWidgetState = useCallback((name: string, updates: object) => {
+    // Published state wins over a binding on the same prop in the context
+    Object.keys(updates).forEach((key) => expressionEngine.overrideBinding(`widgets.${name}.${key}`));
+    published.current[name] = { ...published.current[name], ...updates };
+    setWidgetsState(prev => ({
+      ...prev,
+      [name]: {
+        ...prev[name],
+        ...updates
+      }
+    }));
+  }, []);
+
+  useEffect(() => {
+    actionManager.restorePersistedStore();
+  }, []);
 
   useEffect(() => {
     const initialState: Record<string, any> = {};
+    expressionEngine.clearBindings();
 
     components.forEach(component => {
-      initialState[component.id] = {
-        id: component.id,
-        type: component.type,
+      initialState[component.name] = {
         ...component.props,
-        visible: component.props.visible !== false
+        visible: component.props.visible !== false,
+        ...published.current[component.name],
+        id: component.id,
+        name: component.name,
+        type: component.type
       };
-    });
 
-    setWidgetsState(initialState);
-  }, [components]);
+      Object.entries(component.props).forEach(([key, value]) => {
+        if (typeof value === 'string' && !isEventProp(key) && expressionEngine.hasExpression(value)) {
+          expressionEngine.setBinding(`widgets.${component.name}.${key}`, value);
+        }
+      });
+    });
 
-  useEffect(() => {
     const context: EvaluationContext = {
-      widgets: widgetsState,
-      actions: {},
+      widgets: initialState,
+      actions: actionManager.getActionsContext(),
       page: {
         name: page.name,
-        route: page.route
+        route: page.route,
+        ...route.current
       },
       utils: expressionEngine['context'].utils,
-      store: {}
+      store: useAppStore.getState().globalState
     };
 
     expressionEngine.updateContext(context);
+    setBindingStates(expressionEngine.evaluateBindings());
+    setWidgetsState(initialState);
 
-    actionManager.onWidgetUpdate((widgetId, updates) => {
-      setWidgetsState(prev => ({
-        ...prev,
-        [widgetId]: {
-          ...prev[widgetId],
-          ...updates
+    return () => {
+      published.current = {};
+    };
+  }, [components, page]);
+
+  useEffect(() => {
+    // Only bindings that read the changed widget paths are re-evaluated
+    const updates = expressionEngine.updateContext({ widgets: widgetsState });
+    if (Object.keys(updates).length > 0) {
+      setBindingStates(prev => ({ ...prev, ...updates }));
+    }
+  }, [widgetsState]);
+
+  useEffect(() => {
+    // Moving between locations of the same page (`/orders/1` to `/orders/2`) keeps widget state
+    const updates = expressionEngine.updateContext({
+      page: { name: page.name, route: page.route, params, query }
+    });
+    if (Object.keys(updates).length > 0) {
+      setBindingStates(prev => ({ ...prev, ...updates }));
+    }
+  }, [page.name, page.route, params, query]);
+
+  useEffect(() => {
+    const updates = expressionEngine.updateContext({ store: globalState });
+    if (Object.keys(updates).length > 0) {
+      setBindingStates(prev => ({ ...prev, ...updates }));
+    }
+  }, [globalState]);
+
+  useEffect(() => {
+    // Async bindings report back when their promise settles
+    return expressionEngine.onBindingsChange((updates) => {
+      setBindingStates(prev => ({ ...prev, ...updates }));
+    });
+  }, []);
+
+  useEffect(() => {
+    // Bindings reading `actions.<id>.data` etc. follow the action as it runs
+    return actionManager.onActionsChange(() => {
+      const updates = expressionEngine.updateContext({ actions: actionManager.getActionsContext() });
+      if (Object.keys(updates).length > 0) {
+        setBindingStates(prev => ({ ...prev, ...updates }));
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    // Confirmations queue up and are answered one at a time; any left open when the page closes are declined
+    const pending = new Set<PendingConfirmation>();
+    actionManager.onConfirm((request) => new Promise<boolean>((resolve) => {
+      const confirmation: PendingConfirmation = {
+        request,
+        resolve: (confirmed) => {
+          pending.delete(confirmation);
+          resolve(confirmed);
         }
-      }));
-      setRefreshKey(k => k + 1);
+      };
+      pending.add(confirmation);
+      setConfirmations(prev => [...prev, confirmation]);
+    }));
+    return () => {
+      actionManager.onConfirm(undefined);
+      pending.forEach(confirmation => confirmation.resolve(false));
+    };
+  }, []);
+
+  const resolveConfirmation = useCallback((confirmed: boolean) => {
+    confirmations[0]?.resolve(confirmed);
+    setConfirmations(prev => prev.slice(1));
+  }, [confirmations]);
+
+  useEffect(() => {
+    // `updateWidget` actions may target a widget by name or by id
+    actionManager.onWidgetUpdate((widgetId, updates) => {
+      const component = components.find(c => c.name === widgetId || c.id === widgetId);
+      if (component) updateWidgetState(component.name, updates);
     });
-  }, [widgetsState, page]);
+  }, [components, updateWidgetState]);
 
-  const evaluateComponentProps = useCallback((component: ComponentData): ComponentData => {
-    const evaluatedProps: Record<string, any> = {};
+  useEffect(() => {
+    // When the page opens its APIs and queries start, then its onLoad steps run
+    const { apis, queries, onLoad } = currentPage.current;
+    const actionIds = [
+      ...apis.map((id) => dataActionBridge.findAction('api', id)),
+      ...queries.map((id) => dataActionBridge.findAction('query', id))
+    ];
+    actionIds.forEach((actionId) => {
+      if (actionId) actionManager.run(actionId);
+    });
+    if (onLoad?.length) {
+      actionManager.runEventActions(onLoad, { ...route.current });
+    }
+
+    return () => {
+      // Requests still in flight are abandoned before the onUnload steps start their own
+      actionManager.cancelAll();
+      const { onUnload } = currentPage.current;
+      if (onUnload?.length) {
+        actionManager.runEventActions(onUnload, { ...route.current });
+      }
+    };
+  }, [page.id]);
+
+  useEffect(() => {
+    const polls = (page.polling || []).filter((poll) => poll.actionId && poll.interval > 0);
+    if (polls.length === 0) return;
+
+    const missed = new Set<string>();
+    const timers = polls.map((poll) => setInterval(() => {
+      if (poll.pauseWhenHidden !== false && document.hidden) {
+        missed.add(poll.id);
+        return;
+      }
+      actionManager.run(poll.actionId);
+    }, Math.max(poll.interval, MIN_POLL_INTERVAL)));
+
+    // Polls that were skipped while hidden run as soon as the tab is back
+    const onVisibilityChange = () => {
+      if (document.hidden) return;
+      polls.filter((poll) => missed.has(poll.id)).forEach((poll) => actionManager.run(poll.actionId));
+      missed.clear();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      timers.forEach(clearInterval);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [page.polling]);
+
+  const runHandler = useCallback(async (componentId: string, handler: string) => {
+    setRunningHandlers(prev => ({ ...prev, [componentId]: (prev[componentId] || 0) + 1 }));
+    try {
+      await expressionEngine.evaluateTemplateAsync(handler);
+    } finally {
+      setRunningHandlers(prev => ({ ...prev, [componentId]: prev[componentId] - 1 }));
+    }
+  }, []);
+
+  const runEvent = useCallback(async (
+    component: ComponentData,
+    event: string,
+    payload?: Record<string, unknown>
+  ): Promise<boolean> => {
+    const steps = event === ROW_ACTION_EVENT
+      ? rowActionSteps(component, payload)
+      : component.events?.[event];
+    if (!steps?.length) return true;
+
+    const showLoading = LOADING_EVENTS.includes(event);
+    if (showLoading) {
+      setRunningHandlers(prev => ({ ...prev, [component.id]: (prev[component.id] || 0) + 1 }));
+    }
+    try {
+      const results = await actionManager.runEventActions(steps, payload);
+      return results.every(result => result.success);
+    } finally {
+      if (showLoading) {
+        setRunningHandlers(prev => ({ ...prev, [component.id]: prev[component.id] - 1 }));
+      }
+    }
+  }, []);
+
+  const evaluateComponentProps = useCallback((component: ComponentData): { component: ComponentData; isLoading: boolean } => {
+    // Runtime state (user input, updateWidget actions) wins over design-time props
+    const evaluatedProps: Record<string, any> = { ...widgetsState[component.name] };
+    let isLoading = runningHandlers[component.id] > 0;
 
     for (const [key, value] of Object.entries(component.props)) {
-      if (typeof value === 'string' && expressionEngine.hasExpression(value)) {
-        evaluatedProps[key] = expressionEngine.evaluate(value);
-      } else if (typeof value === 'string') {
-        evaluatedProps[key] = expressionEngine.evaluateTemplate(value);
-      } else {
+      const state = bindingStates[`widgets.${component.name}.${key}`];
+
+      if (typeof value === 'string' && isEventProp(key) && expressionEngine.hasExpression(value)) {
+        evaluatedProps[key] = () => runHandler(component.id, value);
+      } else if (state) {
+        evaluatedProps[key] = state.value;
+        isLoading = isLoading || state.status === 'pending';
+      } else if (!(key in evaluatedProps)) {
         evaluatedProps[key] = value;
       }
     }
 
+    if (isLoading) {
+      evaluatedProps.loading = true;
+    }
+
     return {
-      ...component,
-      props: evaluatedProps
+      component: { ...component, props: evaluatedProps },
+      isLoading
     };
-  }, [refreshKey]);
+  }, [bindingStates, runningHandlers, runHandler, widgetsState]);
 
   return (
     <div className="relative w-full h-full bg-white">
+      {components.length === 0 && emptyState}
       {components.map(component => {
-        const evaluatedComponent = evaluateComponentProps(component);
+        const { component: evaluatedComponent, isLoading } = evaluateComponentProps(component);
 
         return (
           <div
@@ -89,14 +321,34 @@ export const RuntimeRenderer: React.FC<RuntimeRendererProps> = ({ page, componen
               height: component.height
             }}
           >
-            <RenderComponent component={evaluatedComponent} isPreview={true} />
+            <RenderComponent
+              component={evaluatedComponent}
+              isPreview={true}
+              onStateChange={(updates) => updateWidgetState(component.name, updates)}
+              onEvent={(event, payload) => runEvent(component, event, payload)}
+            />
+            {isLoading && !NATIVE_LOADING_TYPES.includes(component.type) && (
+              <div className="absolute inset-0 flex items-center justify-center bg-white bg-opacity-60">
+                <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+              </div>
+            )}
           </div>
         );
       })}
+      <ToastHost />
+      {confirmations.length > 0 && (
+        <ConfirmDialog request={confirmations[0].request} onResolve={resolveConfirmation} />
+      )}
     </div>
   );
 };
 
+function rowActionSteps(component: ComponentData, payload?: Record<string, unknown>): EventAction[] {
+  const rowActions = (component.props as Partial<TableProps>).rowActions;
+  const config = rowActions?.[Number(payload?.actionIndex)];
+  return config ? actionConfigToSteps(config) : [];
+}
+
 export interface RuntimeConfig {
   components: ComponentData[];
   page: AppPage;
@@ -112,8 +364,9 @@ export const createRuntime = (config: RuntimeConfig) => {
     const widgetsMap: Record<string, any> = {};
 
     components.forEach(component => {
-      widgetsMap[component.id] = {
+      widgetsMap[component.name] = {
         id: component.id,
+        name: component.name,
         type: component.type,
         ...component.props
       };
@@ -121,13 +374,13 @@ export const createRuntime = (config: RuntimeConfig) => {
 
     expressionEngine.updateContext({
       widgets: widgetsMap,
-      actions: {},
+      actions: actionManager.getActionsContext(),
       page: {
         name: page.name,
         route: page.route
       },
       utils: expressionEngine['context'].utils,
-      store: {}
+      store: useAppStore.getState().globalState
     });
   }
 
@@ -0,0 +1,109 @@
+export type ToastType = 'info' | 'success' | 'warning' | 'error';
+
+export interface ToastLink {
+  label: string;
+  url: string;
+}
+
+export interface Toast {
+  id: string;
+  message: string;
+  title?: string;
+  type: ToastType;
+  // Milliseconds on screen; 0 keeps the toast until it is dismissed
+  duration: number;
+  link?: ToastLink;
+}
+
+export type ToastOptions = Omit<Toast, 'id' | 'type' | 'duration'> & Partial<Pick<Toast, 'type' | 'duration'>>;
+
+export type ToastListener = (toasts: Toast[]) => void;
+
+const MAX_VISIBLE = 3;
+const DEFAULT_DURATION = 3000;
+
+/**
+ * Holds the toasts raised by `showToast` / `showAlert` actions. At most
+ * three are on screen; the rest wait in a queue and move up as visible ones
+ * are dismissed. A toast's timer only starts once it is visible.
+ */
+export class ToastManager {
+  private visible: Toast[] = [];
+  private queue: Toast[] = [];
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private listeners = new Set<ToastListener>();
+  private hosts = 0;
+
+  show(options: ToastOptions): string {
+    const toast: Toast = {
+      type: 'info',
+      duration: DEFAULT_DURATION,
+      ...options,
+      id: `toast-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`
+    };
+
+    this.queue.push(toast);
+    this.flush();
+    return toast.id;
+  }
+
+  dismiss(id: string) {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    this.visible = this.visible.filter((toast) => toast.id !== id);
+    this.queue = this.queue.filter((toast) => toast.id !== id);
+    this.flush();
+  }
+
+  clear() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.visible = [];
+    this.queue = [];
+    this.notify();
+  }
+
+  getToasts(): Toast[] {
+    return this.visible;
+  }
+
+  subscribe(listener: ToastListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Called by a mounted ToastHost. Returns the detach function; toasts left
+   * over when the last host goes away are dropped.
+   */
+  attachHost(): () => void {
+    this.hosts++;
+    return () => {
+      this.hosts--;
+      if (this.hosts === 0) this.clear();
+    };
+  }
+
+  hasHost(): boolean {
+    return this.hosts > 0;
+  }
+
+  private flush() {
+    while (this.visible.length < MAX_VISIBLE && this.queue.length > 0) {
+      const toast = this.queue.shift()!;
+      this.visible = [...this.visible, toast];
+      if (toast.duration > 0) {
+        this.timers.set(toast.id, setTimeout(() => this.dismiss(toast.id), toast.duration));
+      }
+    }
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener(this.visible));
+  }
+}
+
+export const toastManager = new ToastManager();
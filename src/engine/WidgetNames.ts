@@ -0,0 +1,89 @@
+import { AppPage, ComponentData, ComponentType } from '../types';
+import { expressionEngine } from './ExpressionEngine';
+import { BLOCKED_PROPERTIES } from './ExpressionInterpreter';
+
+const WIDGET_NAME_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * First free `<type><n>` name, e.g. `button1`, `table2`.
+ */
+export function createWidgetName(type: ComponentType, taken: Iterable<string>): string {
+  const names = new Set(taken);
+  let index = 1;
+  while (names.has(`${type}${index}`)) index++;
+  return `${type}${index}`;
+}
+
+/**
+ * Returns why `name` can't be used as a widget name, or null when it can.
+ * Names are `{{ widgets.<name> }}` identifiers, unique across all pages.
+ */
+export function validateWidgetName(name: string, taken: Iterable<string>): string | null {
+  if (!name) return 'Name is required';
+  if (!WIDGET_NAME_PATTERN.test(name)) {
+    return 'Use letters, digits, _ or $, not starting with a digit';
+  }
+  if (BLOCKED_PROPERTIES.has(name)) return `"${name}" is a reserved name`;
+  if (new Set(taken).has(name)) return `"${name}" is already used by another widget`;
+  return null;
+}
+
+/**
+ * Rewrites `widgets.<from>` to `widgets.<to>` in every string inside `value`
+ * (props, action configs, table columns...). Returns `value` itself when
+ * nothing changed.
+ */
+export function renameWidgetReferences<T>(value: T, from: string, to: string): T {
+  if (typeof value === 'string') {
+    return (value.includes('{{') ? expressionEngine.renameReferences(value, 'widgets', from, to) : value) as T;
+  }
+
+  if (Array.isArray(value)) {
+    const next = value.map((item) => renameWidgetReferences(item, from, to));
+    return (next.some((item, index) => item !== value[index]) ? next : value) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    let changed = false;
+    const next: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      next[key] = renameWidgetReferences(item, from, to);
+      changed = changed || next[key] !== item;
+    }
+    return (changed ? next : value) as T;
+  }
+
+  return value;
+}
+
+/**
+ * The fields of `record` (all of them by default) whose bindings mention
+ * `widgets.<from>`, with the references renamed. Returns null when there
+ * are none.
+ */
+export function renameInRecord<T extends object>(
+  record: T,
+  from: string,
+  to: string,
+  keys: (keyof T)[] = Object.keys(record) as (keyof T)[]
+): Partial<T> | null {
+  const updates: Partial<T> = {};
+
+  for (const key of keys) {
+    const renamed = renameWidgetReferences(record[key], from, to);
+    if (renamed !== record[key]) {
+      updates[key] = renamed;
+    }
+  }
+
+  return Object.keys(updates).length > 0 ? updates : null;
+}
+
+export function renameInComponent(component: ComponentData, from: string, to: string): Partial<ComponentData> | null {
+  return renameInRecord(component, from, to, ['props', 'bindings', 'events']);
+}
+
+// Lifecycle steps, polling and the access condition of a page
+export function renameInPage(page: AppPage, from: string, to: string): Partial<AppPage> | null {
+  return renameInRecord(page, from, to, ['onLoad', 'onUnload', 'polling', 'access']);
+}
@@ -0,0 +1,222 @@
+import { Workflow, WorkflowNode, WorkflowNodeType, WorkflowPort } from '../types';
+import { actionManager, ActionDefinition, ActionResult } from './ActionManager';
+import { expressionEngine } from './ExpressionEngine';
+
+// Stops paths whose edges loop back on themselves forever. Each iteration of
+// a loop node's body is a path of its own, so long loops are not affected.
+const MAX_VISITS = 1000;
+
+/**
+ * The outlets each node type offers in the editor, in display order.
+ */
+export const WORKFLOW_PORTS: Record<WorkflowNodeType, WorkflowPort[]> = {
+  start: ['next'],
+  action: ['success', 'error'],
+  condition: ['true', 'false'],
+  parallel: ['branch', 'next'],
+  loop: ['body', 'next'],
+  delay: ['next'],
+  setVariable: ['next']
+};
+
+interface WorkflowRun {
+  workflow: Workflow;
+  vars: Record<string, unknown>;
+  params: Record<string, unknown>;
+}
+
+/**
+ * Runs workflows built in the workflow editor. A run walks the graph from
+ * the start node; every node returns the port to continue from, and a path
+ * ends at a node with nothing connected to that port. `vars` is shared by
+ * all steps of a run (including parallel branches) and is the run's result.
+ */
+export class WorkflowEngine {
+  async run(workflow: Workflow, params: Record<string, unknown> = {}): Promise<ActionResult> {
+    const start = workflow.nodes.find((node) => node.type === 'start');
+    if (!start) {
+      return { success: false, error: `Workflow "${workflow.name}" has no start node` };
+    }
+
+    const run: WorkflowRun = { workflow, vars: {}, params };
+    try {
+      await this.runFrom(start, run);
+      return { success: true, data: run.vars };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        data: run.vars
+      };
+    }
+  }
+
+  /**
+   * Problems that would stop the workflow from running as drawn.
+   */
+  validate(workflow: Workflow): string[] {
+    const errors: string[] = [];
+    const starts = workflow.nodes.filter((node) => node.type === 'start');
+    const ids = new Set(workflow.nodes.map((node) => node.id));
+
+    if (starts.length !== 1) {
+      errors.push(starts.length === 0 ? 'Add a start node' : 'Only one start node is allowed');
+    }
+    for (const edge of workflow.edges) {
+      if (!ids.has(edge.from) || !ids.has(edge.to)) {
+        errors.push(`Edge ${edge.id} points to a missing node`);
+      }
+    }
+    for (const node of workflow.nodes) {
+      const { config } = node;
+      if (node.type === 'action' && !config.actionId && !config.actionType) {
+        errors.push(`${describeNode(node)}: choose an action`);
+      }
+      if (node.type === 'condition' && !config.expression) {
+        errors.push(`${describeNode(node)}: add a condition`);
+      }
+      if (node.type === 'loop' && !config.items) {
+        errors.push(`${describeNode(node)}: add the items to loop over`);
+      }
+      if (node.type === 'setVariable' && !config.name) {
+        errors.push(`${describeNode(node)}: name the variable`);
+      }
+    }
+
+    return errors;
+  }
+
+  private async runFrom(node: WorkflowNode | undefined, run: WorkflowRun): Promise<void> {
+    const visits = new Map<string, number>();
+    let current = node;
+    while (current) {
+      const count = (visits.get(current.id) ?? 0) + 1;
+      if (count > MAX_VISITS) {
+        throw new Error(`Workflow stopped after ${describeNode(current)} ran ${MAX_VISITS} times`);
+      }
+      visits.set(current.id, count);
+
+      const port = await this.executeNode(current, run);
+      current = getTargets(run.workflow, current.id, port)[0];
+    }
+  }
+
+  private async executeNode(node: WorkflowNode, run: WorkflowRun): Promise<WorkflowPort> {
+    const { config } = node;
+
+    switch (node.type) {
+      case 'start':
+        return 'next';
+
+      case 'action': {
+        const result = await this.runAction(node, run);
+        if (result.success) {
+          if (config.resultVariable) {
+            run.vars[String(config.resultVariable)] = result.data;
+          }
+          return 'success';
+        }
+
+        run.vars.error = result.error;
+        // Without an error branch a failed action fails the whole workflow
+        if (getTargets(run.workflow, node.id, 'error').length === 0) {
+          throw new Error(`${describeNode(node)} failed: ${result.error}`);
+        }
+        return 'error';
+      }
+
+      case 'condition':
+        return (await this.evaluateExpression(config.expression, run)) ? 'true' : 'false';
+
+      case 'parallel':
+        await Promise.all(getTargets(run.workflow, node.id, 'branch').map((target) => this.runFrom(target, run)));
+        return 'next';
+
+      case 'loop': {
+        const items = await this.evaluateExpression(config.items, run);
+        if (!Array.isArray(items)) {
+          throw new Error(`${describeNode(node)}: items must be an array`);
+        }
+
+        const itemVariable = String(config.itemVariable || 'item');
+        const [body] = getTargets(run.workflow, node.id, 'body');
+        for (const [index, item] of items.entries()) {
+          run.vars[itemVariable] = item;
+          run.vars.index = index;
+          await this.runFrom(body, run);
+        }
+        return 'next';
+      }
+
+      case 'delay': {
+        const ms = Number(await this.evaluate(config.ms, run)) || 0;
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        return 'next';
+      }
+
+      case 'setVariable':
+        if (!config.name) {
+          throw new Error(`${describeNode(node)}: variable name is required`);
+        }
+        run.vars[String(config.name)] = await this.evaluate(config.value, run);
+        return 'next';
+    }
+  }
+
+  private async runAction(node: WorkflowNode, run: WorkflowRun): Promise<ActionResult> {
+    const { config } = node;
+    const params = (await this.evaluate(config.params ?? {}, run)) as Record<string, unknown>;
+
+    if (config.actionId) {
+      return actionManager.run(String(config.actionId), params);
+    }
+    if (!config.actionType) {
+      return { success: false, error: 'No action selected' };
+    }
+
+    // Variables are resolved here; the action evaluates what's left against the app context
+    const actionConfig = (await this.evaluate(config.actionConfig ?? {}, run)) as Record<string, unknown>;
+    return actionManager.execute(
+      { id: node.id, type: config.actionType as ActionDefinition['type'], config: actionConfig },
+      params
+    );
+  }
+
+  // Strings are `{{ }}` values with `vars` and `params` in scope; objects and arrays are walked
+  private async evaluate(value: unknown, run: WorkflowRun): Promise<unknown> {
+    if (typeof value === 'string') {
+      return expressionEngine.hasExpression(value)
+        ? expressionEngine.evaluateValueAsync(value, { vars: run.vars, params: run.params })
+        : value;
+    }
+    if (Array.isArray(value)) {
+      return Promise.all(value.map((item) => this.evaluate(item, run)));
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = await this.evaluate(item, run);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  // Conditions and loop items may be written with or without `{{ }}`
+  private evaluateExpression(value: unknown, run: WorkflowRun): Promise<unknown> {
+    const text = String(value ?? '');
+    return this.evaluate(expressionEngine.hasExpression(text) ? text : `{{ ${text} }}`, run);
+  }
+}
+
+function getTargets(workflow: Workflow, nodeId: string, port: WorkflowPort): WorkflowNode[] {
+  return workflow.edges
+    .filter((edge) => edge.from === nodeId && edge.port === port)
+    .flatMap((edge) => workflow.nodes.filter((node) => node.id === edge.to));
+}
+
+function describeNode(node: WorkflowNode): string {
+  return node.label ? `"${node.label}"` : `${node.type} node`;
+}
+
+export const workflowEngine = new WorkflowEngine();
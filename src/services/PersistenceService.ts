@@ -1,5 +1,22 @@
-import { supabase, SavedPage, SavedProject } from './supabaseClient';
-import { AppPage, ComponentData, AppSettings } from '../types';
+import { supabase, isSupabaseConfigured, SavedPage, SavedProject } from './supabaseClient';
+import { AppPage, ComponentData, AppSettings, ProjectDocument } from '../types';
+import { migrateProjectDocument } from './ProjectMigrations';
+
+export const PROJECT_SCHEMA_VERSION = 4;
+
+const AUTOSAVE_KEY = 'appbuilder_autosave';
+const LOCAL_PROJECT_KEY = 'appbuilder_project';
+const LAST_PROJECT_ID_KEY = 'appbuilder_last_project_id';
+
+// Project fields that have no dedicated column and are stored in `projects.data`
+export type ProjectData = Pick<ProjectDocument, 'schemaVersion' | 'apis' | 'queries' | 'datasources' | 'workflows' | 'globalState' | 'history'>;
+
+export interface ProjectParseResult {
+  success: boolean;
+  project?: ProjectDocument;
+  error?: string;
+  errors?: string[];
+}
 
 export class PersistenceService {
   async createMigration() {
@@ -20,7 +37,8 @@ export class PersistenceService {
     name: string,
     description: string,
     pages: AppPage[],
-    settings: AppSettings
+    settings: AppSettings,
+    data?: ProjectData
   ): Promise<{ success: boolean; projectId?: string; error?: string }> {
     try {
       const { data: project, error: projectError } = await supabase
@@ -29,6 +47,7 @@ export class PersistenceService {
           name,
           description,
           settings: JSON.stringify(settings),
+          data: JSON.stringify(data || {}),
           pages: [],
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -40,39 +59,11 @@ export class PersistenceService {
         return { success: false, error: projectError?.message || 'Failed to create project' };
       }
 
-      const pageIds: string[] = [];
-
-      for (const page of pages) {
-        const { data: savedPage, error: pageError } = await supabase
-          .from('pages')
-          .insert({
-            name: page.name,
-            route: page.route,
-            is_home_page: page.isHomePage || false,
-            components: JSON.stringify(page.components),
-            apis: JSON.stringify(page.apis),
-            queries: JSON.stringify(page.queries),
-            seo: JSON.stringify(page.seo || {}),
-            project_id: project.id,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString()
-          })
-          .select()
-          .maybeSingle();
-
-        if (pageError || !savedPage) {
-          console.error('Failed to save page:', page.name, pageError);
-          continue;
-        }
-
-        pageIds.push(savedPage.id);
+      const pagesResult = await this.savePages(project.id, pages);
+      if (!pagesResult.success) {
+        return { success: false, error: pagesResult.error };
       }
 
-      await supabase
-        .from('projects')
-        .update({ pages: pageIds })
-        .eq('id', project.id);
-
       return { success: true, projectId: project.id };
     } catch (error) {
       return {
@@ -87,7 +78,8 @@ export class PersistenceService {
     name?: string,
     description?: string,
     pages?: AppPage[],
-    settings?: AppSettings
+    settings?: AppSettings,
+    data?: ProjectData
   ): Promise<{ success: boolean; error?: string }> {
     try {
       const updates: any = {
@@ -97,6 +89,7 @@ export class PersistenceService {
       if (name !== undefined) updates.name = name;
       if (description !== undefined) updates.description = description;
       if (settings !== undefined) updates.settings = JSON.stringify(settings);
+      if (data !== undefined) updates.data = JSON.stringify(data);
 
       const { error: projectError } = await supabase
         .from('projects')
@@ -108,9 +101,7 @@ export class PersistenceService {
       }
 
       if (pages) {
-        for (const page of pages) {
-          await this.savePage(projectId, page);
-        }
+        return await this.savePages(projectId, pages);
       }
 
       return { success: true };
@@ -139,7 +130,8 @@ export class PersistenceService {
       const { data: pagesData, error: pagesError } = await supabase
         .from('pages')
         .select('*')
-        .eq('project_id', projectId);
+        .eq('project_id', projectId)
+        .order('position', { ascending: true });
 
       if (pagesError) {
         return { success: false, error: pagesError.message };
@@ -153,6 +145,8 @@ export class PersistenceService {
         components: JSON.parse(page.components || '[]'),
         apis: JSON.parse(page.apis || '[]'),
         queries: JSON.parse(page.queries || '[]'),
+        ...JSON.parse(page.lifecycle || '{}'),
+        access: JSON.parse(page.access || '{}'),
         seo: JSON.parse(page.seo || '{}')
       }));
 
@@ -160,7 +154,8 @@ export class PersistenceService {
         success: true,
         project: {
           ...project,
-          settings: JSON.parse(project.settings || '{}')
+          settings: JSON.parse(project.settings || '{}'),
+          data: JSON.parse(project.data || '{}')
         },
         pages
       };
@@ -211,20 +206,11 @@ export class PersistenceService {
     }
   }
 
-  async savePage(projectId: string, page: AppPage): Promise<{ success: boolean; error?: string }> {
+  async savePage(projectId: string, page: AppPage, position?: number): Promise<{ success: boolean; error?: string }> {
     try {
-      const { error } = await supabase.from('pages').upsert({
-        id: page.id,
-        name: page.name,
-        route: page.route,
-        is_home_page: page.isHomePage || false,
-        components: JSON.stringify(page.components),
-        apis: JSON.stringify(page.apis),
-        queries: JSON.stringify(page.queries),
-        seo: JSON.stringify(page.seo || {}),
-        project_id: projectId,
-        updated_at: new Date().toISOString()
-      });
+      const { error } = await supabase
+        .from('pages')
+        .upsert(pageRow(projectId, page, position), { onConflict: 'project_id,id' });
 
       if (error) {
         return { success: false, error: error.message };
@@ -239,6 +225,49 @@ export class PersistenceService {
     }
   }
 
+  /**
+   * Writes the project's pages in order under their own ids and deletes the
+   * project's pages that are no longer in the list.
+   */
+  async savePages(projectId: string, pages: AppPage[]): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (pages.length > 0) {
+        const { error } = await supabase
+          .from('pages')
+          .upsert(pages.map((page, index) => pageRow(projectId, page, index)), { onConflict: 'project_id,id' });
+
+        if (error) {
+          return { success: false, error: error.message };
+        }
+      }
+
+      let removed = supabase.from('pages').delete().eq('project_id', projectId);
+      if (pages.length > 0) {
+        removed = removed.not('id', 'in', `(${pages.map((page) => JSON.stringify(page.id)).join(',')})`);
+      }
+      const { error: deleteError } = await removed;
+      if (deleteError) {
+        return { success: false, error: deleteError.message };
+      }
+
+      const { error: projectError } = await supabase
+        .from('projects')
+        .update({ pages: pages.map((page) => page.id) })
+        .eq('id', projectId);
+
+      if (projectError) {
+        return { success: false, error: projectError.message };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   async saveToLocalStorage(key: string, data: any): Promise<void> {
     try {
       localStorage.setItem(key, JSON.stringify(data));
@@ -257,28 +286,421 @@ export class PersistenceService {
     }
   }
 
-  async autoSave(
-    projectId: string | null,
-    pages: AppPage[],
-    settings: AppSettings
-  ): Promise<void> {
-    const autoSaveData = {
-      projectId,
-      pages,
-      settings,
-      timestamp: new Date().toISOString()
+  async autoSave(document: ProjectDocument): Promise<void> {
+    await this.saveToLocalStorage(AUTOSAVE_KEY, document);
+  }
+
+  async loadAutoSave(): Promise<ProjectDocument | null> {
+    const data = await this.loadFromLocalStorage(AUTOSAVE_KEY);
+    if (!data) return null;
+
+    const result = this.parseProjectData(data);
+    return result.success ? result.project! : null;
+  }
+
+  async clearAutoSave(): Promise<void> {
+    localStorage.removeItem(AUTOSAVE_KEY);
+  }
+
+  /**
+   * Loads the saved project: the local copy when Supabase is not configured,
+   * otherwise the project with `projectId` (by default the last one saved
+   * from this browser).
+   */
+  async loadProjectDocument(projectId?: string): Promise<ProjectParseResult> {
+    if (!isSupabaseConfigured) {
+      const saved = await this.loadFromLocalStorage(LOCAL_PROJECT_KEY);
+      return saved ? this.parseProjectData(saved) : { success: false, error: 'No saved project' };
+    }
+
+    const id = projectId ?? localStorage.getItem(LAST_PROJECT_ID_KEY);
+    if (!id) {
+      return { success: false, error: 'No saved project' };
+    }
+
+    const result = await this.loadProject(id);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    const { data, ...project } = result.project;
+    return this.parseProjectData({
+      ...data,
+      id: project.id,
+      name: project.name,
+      description: project.description,
+      pages: result.pages,
+      settings: project.settings,
+      savedAt: project.updated_at
+    });
+  }
+
+  /**
+   * Saves the whole project: creates it on first save and updates it
+   * afterwards. Falls back to localStorage when Supabase is not configured.
+   */
+  async saveProjectDocument(
+    document: ProjectDocument
+  ): Promise<{ success: boolean; projectId?: string; savedLocally?: boolean; error?: string }> {
+    if (!isSupabaseConfigured) {
+      await this.saveToLocalStorage(LOCAL_PROJECT_KEY, document);
+      return { success: true, projectId: document.id ?? undefined, savedLocally: true };
+    }
+
+    const data: ProjectData = {
+      schemaVersion: document.schemaVersion,
+      apis: document.apis,
+      queries: document.queries,
+      datasources: document.datasources,
+      workflows: document.workflows,
+      globalState: document.globalState,
+      history: document.history
     };
 
-    await this.saveToLocalStorage('appbuilder_autosave', autoSaveData);
+    if (document.id) {
+      const result = await this.updateProject(
+        document.id,
+        document.name,
+        document.description,
+        document.pages,
+        document.settings,
+        data
+      );
+      return this.rememberProject({ ...result, projectId: document.id });
+    }
+
+    return this.rememberProject(await this.saveProject(
+      document.name,
+      document.description || '',
+      document.pages,
+      document.settings,
+      data
+    ));
   }
 
-  async loadAutoSave(): Promise<any | null> {
-    return await this.loadFromLocalStorage('appbuilder_autosave');
+  // The last project saved from this browser is the one reopened on startup
+  private rememberProject<T extends { success: boolean; projectId?: string }>(result: T): T {
+    if (result.success && result.projectId) {
+      localStorage.setItem(LAST_PROJECT_ID_KEY, result.projectId);
+    }
+    return result;
   }
 
-  async clearAutoSave(): Promise<void> {
-    localStorage.removeItem('appbuilder_autosave');
+  exportProject(document: ProjectDocument): void {
+    const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const filename = document.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'project';
+
+    const a = window.document.createElement('a');
+    a.href = url;
+    a.download = `${filename}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  async importProject(file: File): Promise<ProjectParseResult> {
+    try {
+      return this.parseProject(await file.text());
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  parseProject(json: string): ProjectParseResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+
+    return this.parseProjectData(data);
+  }
+
+  /**
+   * Upgrades older documents to PROJECT_SCHEMA_VERSION, then validates them.
+   */
+  parseProjectData(data: unknown): ProjectParseResult {
+    const migration = migrateProjectDocument(data, PROJECT_SCHEMA_VERSION);
+    if (!migration.success) {
+      return { success: false, error: migration.error, errors: [migration.error!] };
+    }
+
+    const errors = validateProjectDocument(migration.document);
+
+    if (errors.length > 0) {
+      return { success: false, error: 'Invalid project file', errors };
+    }
+
+    return { success: true, project: migration.document };
   }
 }
 
+// Lifecycle settings share one column in the pages table
+function pageLifecycle(page: AppPage): NonNullable<SavedPage['lifecycle']> {
+  return { onLoad: page.onLoad, onUnload: page.onUnload, polling: page.polling };
+}
+
+// Pages keep their builder ids, which navigation steps refer to
+function pageRow(projectId: string, page: AppPage, position?: number) {
+  return {
+    id: page.id,
+    project_id: projectId,
+    position,
+    name: page.name,
+    route: page.route,
+    is_home_page: page.isHomePage || false,
+    components: JSON.stringify(page.components),
+    apis: JSON.stringify(page.apis),
+    queries: JSON.stringify(page.queries),
+    lifecycle: JSON.stringify(pageLifecycle(page)),
+    access: JSON.stringify(page.access || {}),
+    seo: JSON.stringify(page.seo || {}),
+    updated_at: new Date().toISOString()
+  };
+}
+
+// Helper functions for project validation
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const expectType = (type: 'string' | 'number' | 'boolean'): Check => (value, path, errors) => {
+  if (typeof value !== type) {
+    errors.push(`${path}: expected ${type}, got ${describeValue(value)}`);
+  }
+};
+
+const expectObject: Check = (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected object, got ${describeValue(value)}`);
+  }
+};
+
+const expectOneOf = (options: string[]): Check => (value, path, errors) => {
+  if (!options.includes(value as string)) {
+    errors.push(`${path}: expected one of ${options.join(', ')}, got ${describeValue(value)}`);
+  }
+};
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value}"`;
+  return typeof value;
+}
+
+function checkFields(
+  value: unknown,
+  path: string,
+  errors: string[],
+  required: Record<string, Check>,
+  optional: Record<string, Check> = {}
+) {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected object, got ${describeValue(value)}`);
+    return;
+  }
+
+  for (const [key, check] of Object.entries(required)) {
+    if (value[key] === undefined) {
+      errors.push(`${path}.${key}: is required`);
+    } else {
+      check(value[key], `${path}.${key}`, errors);
+    }
+  }
+
+  for (const [key, check] of Object.entries(optional)) {
+    if (value[key] !== undefined && value[key] !== null) {
+      check(value[key], `${path}.${key}`, errors);
+    }
+  }
+}
+
+const expectArrayOf = (check: Check): Check => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected array, got ${describeValue(value)}`);
+    return;
+  }
+  value.forEach((item, index) => check(item, `${path}[${index}]`, errors));
+};
+
+const checkConfirmation: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {}, {
+    title: expectType('string'),
+    message: expectType('string'),
+    confirmLabel: expectType('string'),
+    cancelLabel: expectType('string'),
+    destructive: expectType('boolean')
+  });
+
+const checkEventAction: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {
+    id: expectType('string')
+  }, {
+    actionId: expectType('string'),
+    type: expectType('string'),
+    config: expectObject,
+    params: expectObject,
+    confirm: checkConfirmation,
+    onSuccess: expectArrayOf(checkEventAction),
+    onError: expectArrayOf(checkEventAction)
+  });
+
+const checkEvents: Check = (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push(`${path}: expected object, got ${describeValue(value)}`);
+    return;
+  }
+  for (const [event, steps] of Object.entries(value)) {
+    expectArrayOf(checkEventAction)(steps, `${path}.${event}`, errors);
+  }
+};
+
+const checkComponent: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {
+    id: expectType('string'),
+    name: expectType('string'),
+    type: expectType('string'),
+    x: expectType('number'),
+    y: expectType('number'),
+    width: expectType('number'),
+    height: expectType('number'),
+    props: expectObject,
+    style: expectObject
+  }, {
+    events: checkEvents
+  });
+
+const checkPolling: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {
+    id: expectType('string'),
+    actionId: expectType('string'),
+    interval: expectType('number')
+  }, {
+    pauseWhenHidden: expectType('boolean')
+  });
+
+const checkPageAccess: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {}, {
+    condition: expectType('string'),
+    redirectTo: expectType('string')
+  });
+
+const checkPage: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {
+    id: expectType('string'),
+    name: expectType('string'),
+    components: expectArrayOf(checkComponent)
+  }, {
+    route: expectType('string'),
+    isHomePage: expectType('boolean'),
+    access: checkPageAccess,
+    onLoad: expectArrayOf(checkEventAction),
+    onUnload: expectArrayOf(checkEventAction),
+    polling: expectArrayOf(checkPolling)
+  });
+
+const checkApi: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {
+    id: expectType('string'),
+    name: expectType('string'),
+    method: expectOneOf(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']),
+    url: expectType('string')
+  }, {
+    headers: expectObject
+  });
+
+const checkQuery: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {
+    id: expectType('string'),
+    name: expectType('string'),
+    query: expectType('string')
+  });
+
+const checkDatasource: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {
+    id: expectType('string'),
+    name: expectType('string'),
+    type: expectType('string'),
+    config: expectObject
+  });
+
+const checkWorkflowNode: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {
+    id: expectType('string'),
+    type: expectOneOf(['start', 'action', 'condition', 'parallel', 'loop', 'delay', 'setVariable']),
+    x: expectType('number'),
+    y: expectType('number'),
+    config: expectObject
+  }, {
+    label: expectType('string')
+  });
+
+const checkWorkflowEdge: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {
+    id: expectType('string'),
+    from: expectType('string'),
+    to: expectType('string'),
+    port: expectOneOf(['next', 'success', 'error', 'true', 'false', 'branch', 'body'])
+  });
+
+const checkWorkflow: Check = (value, path, errors) =>
+  checkFields(value, path, errors, {
+    id: expectType('string'),
+    name: expectType('string'),
+    nodes: expectArrayOf(checkWorkflowNode),
+    edges: expectArrayOf(checkWorkflowEdge)
+  }, {
+    description: expectType('string')
+  });
+
+export function validateProjectDocument(data: unknown): string[] {
+  const errors: string[] = [];
+
+  checkFields(data, 'project', errors, {
+    schemaVersion: expectType('number'),
+    name: expectType('string'),
+    pages: expectArrayOf(checkPage),
+    apis: expectArrayOf(checkApi),
+    queries: expectArrayOf(checkQuery),
+    datasources: expectArrayOf(checkDatasource),
+    workflows: expectArrayOf(checkWorkflow),
+    globalState: expectObject,
+    settings: expectObject
+  }, {
+    id: expectType('string'),
+    description: expectType('string'),
+    history: expectObject
+  });
+
+  if (isObject(data) && Array.isArray(data.pages) && data.pages.length === 0) {
+    errors.push('project.pages: must contain at least one page');
+  }
+
+  // Widget names are binding identifiers, so they must be unique across pages
+  if (isObject(data) && Array.isArray(data.pages)) {
+    const seen = new Set<string>();
+    data.pages.forEach((page, pageIndex) => {
+      if (!isObject(page) || !Array.isArray(page.components)) return;
+      page.components.forEach((comp, index) => {
+        if (!isObject(comp) || typeof comp.name !== 'string') return;
+        if (seen.has(comp.name)) {
+          errors.push(`project.pages[${pageIndex}].components[${index}].name: duplicate widget name "${comp.name}"`);
+        }
+        seen.add(comp.name);
+      });
+    });
+  }
+
+  return errors;
+}
+
 export const persistenceService = new PersistenceService();
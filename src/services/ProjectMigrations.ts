@@ -0,0 +1,283 @@
+import { ComponentType, ProjectDocument } from '../types';
+import { createWidgetName, renameWidgetReferences } from '../engine/WidgetNames';
+
+type UnknownDocument = Record<string, unknown>;
+
+export interface ProjectMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (document: UnknownDocument) => UnknownDocument;
+}
+
+export interface MigrationResult {
+  success: boolean;
+  document?: ProjectDocument;
+  applied: ProjectMigration[];
+  error?: string;
+}
+
+/**
+ * Ordered list of schema upgrades. Each migration takes a document at
+ * `from` and returns it at `to`; add a new entry (and bump
+ * PROJECT_SCHEMA_VERSION) whenever the persisted shape changes.
+ */
+export const projectMigrations: ProjectMigration[] = [
+  {
+    from: 0,
+    to: 1,
+    description: 'Wrap unversioned autosaves and Supabase projects in a ProjectDocument',
+    migrate: (document) => {
+      const pages = Array.isArray(document.pages) ? document.pages : [];
+      const data = isObject(document.data) ? document.data : {};
+
+      return {
+        id: document.id ?? document.projectId ?? null,
+        name: typeof document.name === 'string' ? document.name : 'Untitled Project',
+        description: document.description,
+        pages: pages.map((page) =>
+          isObject(page) ? { ...page, components: page.components ?? [] } : page
+        ),
+        apis: document.apis ?? data.apis ?? [],
+        queries: document.queries ?? data.queries ?? [],
+        datasources: document.datasources ?? data.datasources ?? [],
+        globalState: document.globalState ?? data.globalState ?? {},
+        settings: document.settings ?? {},
+        history: document.history ?? data.history,
+        savedAt: document.savedAt ?? document.timestamp ?? new Date().toISOString()
+      };
+    }
+  },
+  {
+    from: 1,
+    to: 2,
+    description: 'Give every component a unique widget name and point bindings at it instead of the id',
+    migrate: (document) => {
+      const pages = Array.isArray(document.pages) ? document.pages.filter(isObject) : [];
+      const components = pages.flatMap((page) =>
+        Array.isArray(page.components) ? page.components.filter(isObject) : []
+      );
+
+      const taken = new Set(components.flatMap((comp) => (typeof comp.name === 'string' ? [comp.name] : [])));
+      const names = new Map<string, string>();
+      for (const comp of components) {
+        if (typeof comp.name === 'string' || typeof comp.id !== 'string') continue;
+        const name = createWidgetName(String(comp.type) as ComponentType, taken);
+        taken.add(name);
+        names.set(comp.id, name);
+      }
+
+      // `widgets.<id>` was the only way to reference a widget before names existed
+      const rename = <T>(value: T): T =>
+        [...names].reduce((acc, [id, name]) => renameWidgetReferences(acc, id, name), value);
+      const nameComponent = (comp: unknown) =>
+        isObject(comp) && typeof comp.id === 'string' && names.has(comp.id)
+          ? rename({ ...comp, name: comp.name ?? names.get(comp.id) })
+          : rename(comp);
+      const migrateEntry = (entry: unknown): unknown =>
+        isObject(entry)
+          ? {
+              ...entry,
+              before: entry.action === 'delete' ? nameComponent(entry.before) : rename(entry.before),
+              after: entry.action === 'add' ? nameComponent(entry.after) : rename(entry.after),
+              entries: Array.isArray(entry.entries) ? entry.entries.map(migrateEntry) : entry.entries
+            }
+          : entry;
+
+      return {
+        ...document,
+        pages: mapPageComponents(document.pages, nameComponent),
+        history: mapHistoryEntries(document.history, migrateEntry)
+      };
+    }
+  },
+  {
+    from: 2,
+    to: 3,
+    description: 'Move button and image click actions into declarative component events',
+    migrate: (document) => {
+      const migrateComponent = (comp: unknown): unknown => {
+        if (!isObject(comp) || !isObject(comp.props)) return comp;
+
+        const { actions, clickAction, ...props } = comp.props;
+        // Partial updates in history only lose the old props
+        if (typeof comp.type !== 'string') {
+          return actions === undefined && clickAction === undefined ? comp : { ...comp, props };
+        }
+
+        const legacy = isObject(actions) ? actions.onClick : clickAction;
+        const events: Record<string, unknown[]> = {};
+
+        // `events` used to hold handler strings that nothing ran
+        if (isObject(comp.events)) {
+          for (const [event, handler] of Object.entries(comp.events)) {
+            events[event] = Array.isArray(handler)
+              ? handler
+              : typeof handler === 'string' && handler.trim()
+                ? [{ id: `${event}-1`, type: 'runJS', config: { code: handler } }]
+                : [];
+          }
+        }
+
+        const step = isObject(legacy) ? legacyActionToStep(legacy, props) : null;
+        if (step) {
+          events.onClick = [...(events.onClick || []), step];
+        }
+
+        if (actions === undefined && clickAction === undefined && comp.events === undefined) return comp;
+        return { ...comp, props, events };
+      };
+      const migrateEntry = (entry: unknown): unknown =>
+        isObject(entry)
+          ? {
+              ...entry,
+              before: migrateComponent(entry.before),
+              after: migrateComponent(entry.after),
+              entries: Array.isArray(entry.entries) ? entry.entries.map(migrateEntry) : entry.entries
+            }
+          : entry;
+
+      return {
+        ...document,
+        pages: mapPageComponents(document.pages, migrateComponent),
+        history: mapHistoryEntries(document.history, migrateEntry)
+      };
+    }
+  },
+  {
+    from: 3,
+    to: 4,
+    description: 'Add workflows',
+    migrate: (document) => ({
+      ...document,
+      workflows: Array.isArray(document.workflows) ? document.workflows : []
+    })
+  }
+];
+
+function mapPageComponents(pages: unknown, migrate: (comp: unknown) => unknown): unknown[] {
+  return (Array.isArray(pages) ? pages : []).map((page) =>
+    isObject(page) && Array.isArray(page.components)
+      ? { ...page, components: page.components.map(migrate) }
+      : page
+  );
+}
+
+function mapHistoryEntries(history: unknown, migrate: (entry: unknown) => unknown): unknown {
+  if (!isObject(history)) return history;
+
+  return {
+    ...history,
+    entries: Array.isArray(history.entries) ? history.entries.map(migrate) : history.entries,
+    branches: Array.isArray(history.branches)
+      ? history.branches.map((branch) =>
+          isObject(branch) && Array.isArray(branch.entries)
+            ? { ...branch, entries: branch.entries.map(migrate) }
+            : branch
+        )
+      : history.branches
+  };
+}
+
+// Converts a v2 ActionConfig (`{ type: 'alert', params: { message } }`) into an event step
+function legacyActionToStep(config: UnknownDocument, props: UnknownDocument): UnknownDocument | null {
+  const params = isObject(config.params) ? config.params : {};
+  const target = typeof config.target === 'string' ? config.target : '';
+  const id = `onClick-${String(config.type)}`;
+
+  let step: UnknownDocument;
+  switch (config.type) {
+    case 'alert':
+      step = { id, type: 'showAlert', config: { message: params.message ?? 'Clicked!' } };
+      break;
+    case 'js':
+      step = { id, type: 'runJS', config: { code: target } };
+      break;
+    case 'navigate':
+      step = { id, type: 'navigate', config: { path: target } };
+      break;
+    case 'copy':
+      step = { id, type: 'copyToClipboard', config: { text: params.text ?? '' } };
+      break;
+    case 'download':
+      step = { id, type: 'downloadFile', config: { url: target || props.src || '', filename: props.alt || 'download' } };
+      break;
+    case 'modal':
+      step = { id, type: 'openModal', config: { modalId: target } };
+      break;
+    case 'query':
+      step = { id, actionId: target };
+      break;
+    default:
+      return null;
+  }
+
+  const confirmation = config.confirmation;
+  if (isObject(confirmation) && confirmation.enabled) {
+    step.confirm = {
+      title: typeof confirmation.title === 'string' ? confirmation.title : undefined,
+      message: typeof confirmation.message === 'string' && confirmation.message ? confirmation.message : 'Are you sure?'
+    };
+  }
+  if (typeof config.successMessage === 'string' && config.successMessage) {
+    step.onSuccess = [{ id: `${id}-success`, type: 'showToast', config: { message: config.successMessage, type: 'success' } }];
+  }
+  if (typeof config.errorMessage === 'string' && config.errorMessage) {
+    step.onError = [{ id: `${id}-error`, type: 'showToast', config: { message: config.errorMessage, type: 'error' } }];
+  }
+  return step;
+}
+
+export function getSchemaVersion(document: UnknownDocument): number {
+  return typeof document.schemaVersion === 'number' ? document.schemaVersion : 0;
+}
+
+/**
+ * Upgrades a parsed document step by step to `targetVersion`. Documents
+ * without a `schemaVersion` are treated as version 0.
+ */
+export function migrateProjectDocument(data: unknown, targetVersion: number): MigrationResult {
+  if (!isObject(data)) {
+    return { success: false, applied: [], error: 'Project document must be an object' };
+  }
+
+  let document = data;
+  let version = getSchemaVersion(document);
+  const applied: ProjectMigration[] = [];
+
+  if (version > targetVersion) {
+    return {
+      success: false,
+      applied,
+      error: `Project uses schema v${version}, but this version of the builder only supports up to v${targetVersion}`
+    };
+  }
+
+  while (version < targetVersion) {
+    const migration = projectMigrations.find((m) => m.from === version);
+    if (!migration) {
+      return { success: false, applied, error: `No migration from schema v${version}` };
+    }
+
+    try {
+      document = { ...migration.migrate(document), schemaVersion: migration.to };
+    } catch (error) {
+      return {
+        success: false,
+        applied,
+        error: `Migration v${migration.from} → v${migration.to} failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      };
+    }
+
+    applied.push(migration);
+    version = migration.to;
+  }
+
+  return { success: true, document: document as unknown as ProjectDocument, applied };
+}
+
+function isObject(value: unknown): value is UnknownDocument {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
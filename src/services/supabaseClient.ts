@@ -3,16 +3,33 @@ import { createClient } from '@supabase/supabase-js';
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
+// createClient throws on an empty URL; fall back to placeholders so local-only
+// features (autosave, import/export) keep working without a Supabase project.
+export const supabase = createClient(
+  supabaseUrl || 'http://localhost',
+  supabaseAnonKey || 'public-anon-key'
+);
 
 export interface SavedPage {
   id: string;
+  position?: number;
   name: string;
   route?: string;
   is_home_page: boolean;
   components: any[];
   apis: string[];
   queries: string[];
+  access?: {
+    condition?: string;
+    redirectTo?: string;
+  };
+  lifecycle?: {
+    onLoad?: unknown[];
+    onUnload?: unknown[];
+    polling?: unknown[];
+  };
   seo?: {
     title?: string;
     description?: string;
@@ -29,6 +46,7 @@ export interface SavedProject {
   description?: string;
   pages: string[];
   settings: any;
+  data?: string;
   created_at?: string;
   updated_at?: string;
   user_id?: string;
@@ -1,6 +1,12 @@
 import { create } from 'zustand';
-import { ComponentData, ComponentType, ApiEndpoint, SqlQuery, Datasource, AppPage, GlobalState, CodeGeneration, AppSettings, Theme } from '../types';
-import { historyManager } from '../engine/HistoryManager';
+import { ComponentData, ComponentType, ApiEndpoint, SqlQuery, Datasource, AppPage, GlobalState, CodeGeneration, AppSettings, Theme, ProjectDocument, Workflow } from '../types';
+import { historyManager, HistoryEntry, HistorySnapshot, HistoryStep, HistoryTarget } from '../engine/HistoryManager';
+import { actionManager, ActionResult } from '../engine/ActionManager';
+import { dataActionBridge } from '../engine/DataActions';
+import { workflowEngine } from '../engine/WorkflowEngine';
+import { createWidgetName, renameInComponent, renameInPage, renameInRecord, validateWidgetName } from '../engine/WidgetNames';
+import { routeFromName } from '../engine/Router';
+import { persistenceService, PROJECT_SCHEMA_VERSION } from '../services/PersistenceService';
 
 const defaultTheme: Theme = {
   id: 'default',
@@ -29,9 +35,9 @@ const defaultTheme: Theme = {
 
 interface AppState {
   // UI State
-  activeTab: 'canvas' | 'api' | 'sql' | 'datasources' | 'code';
+  activeTab: 'canvas' | 'api' | 'sql' | 'workflows' | 'datasources' | 'code';
   leftPanelTab: 'components' | 'pages' | 'queries' | 'apis' | 'layers';
-  rightPanelTab: 'properties' | 'data' | 'logs' | 'settings';
+  rightPanelTab: 'properties' | 'data' | 'logs' | 'history' | 'settings';
   
   // Canvas State
   components: ComponentData[];
@@ -53,6 +59,10 @@ interface AppState {
   sqlQueries: SqlQuery[];
   selectedQuery: SqlQuery | null;
   
+  // Workflows
+  workflows: Workflow[];
+  selectedWorkflow: Workflow | null;
+  
   // Datasources
   datasources: Datasource[];
   selectedDatasource: Datasource | null;
@@ -67,15 +77,17 @@ interface AppState {
   settings: AppSettings;
   
   // Actions
-  setActiveTab: (tab: 'canvas' | 'api' | 'sql' | 'datasources' | 'code') => void;
+  setActiveTab: (tab: 'canvas' | 'api' | 'sql' | 'workflows' | 'datasources' | 'code') => void;
   setLeftPanelTab: (tab: 'components' | 'pages' | 'queries' | 'apis' | 'layers') => void;
-  setRightPanelTab: (tab: 'properties' | 'data' | 'logs' | 'settings') => void;
+  setRightPanelTab: (tab: 'properties' | 'data' | 'logs' | 'history' | 'settings') => void;
   
   // Component Actions
   addComponent: (component: ComponentData) => void;
   updateComponent: (id: string, updates: Partial<ComponentData>) => void;
   deleteComponent: (id: string) => void;
   duplicateComponent: (id: string) => void;
+  renameComponent: (id: string, name: string) => string | null;
+  getComponentNames: () => string[];
   selectComponent: (component: ComponentData | null) => void;
   setDraggedComponent: (component: ComponentType | null) => void;
   setCanvasScale: (scale: number) => void;
@@ -88,6 +100,8 @@ interface AppState {
   updatePage: (id: string, updates: Partial<AppPage>) => void;
   deletePage: (id: string) => void;
   duplicatePage: (id: string) => void;
+  movePage: (id: string, toIndex: number) => void;
+  setHomePage: (id: string) => void;
   setCurrentPage: (id: string) => void;
   
   // API Actions
@@ -97,6 +111,7 @@ interface AppState {
   duplicateApi: (id: string) => void;
   selectApi: (api: ApiEndpoint | null) => void;
   runApi: (id: string) => Promise<void>;
+  cancelApi: (id: string) => void;
   
   // SQL Actions
   addSqlQuery: (query: SqlQuery) => void;
@@ -106,6 +121,14 @@ interface AppState {
   selectSqlQuery: (query: SqlQuery | null) => void;
   runSqlQuery: (id: string) => Promise<void>;
   
+  // Workflow Actions
+  addWorkflow: (workflow: Workflow) => void;
+  updateWorkflow: (id: string, updates: Partial<Workflow>) => void;
+  deleteWorkflow: (id: string) => void;
+  duplicateWorkflow: (id: string) => void;
+  selectWorkflow: (workflow: Workflow | null) => void;
+  runWorkflow: (id: string, params?: Record<string, unknown>) => Promise<ActionResult>;
+  
   // Datasource Actions
   addDatasource: (datasource: Datasource) => void;
   updateDatasource: (id: string, updates: Partial<Datasource>) => void;
@@ -118,10 +141,33 @@ interface AppState {
   
   // Global State Actions
   updateGlobalState: (key: string, value: any) => void;
+  clearGlobalState: (keys?: string[]) => void;
   
   // Settings Actions
   updateSettings: (updates: Partial<AppSettings>) => void;
   updateTheme: (theme: Theme) => void;
+
+  // Project
+  projectId: string | null;
+  projectName: string;
+  projectDescription: string;
+  setProjectName: (name: string) => void;
+  getProjectDocument: () => ProjectDocument;
+  loadProjectDocument: (document: ProjectDocument) => void;
+  saveProject: () => Promise<{ success: boolean; savedLocally?: boolean; error?: string }>;
+  restoreProject: () => Promise<void>;
+
+  // History
+  canUndo: boolean;
+  canRedo: boolean;
+  historyRevision: number;
+  undo: () => void;
+  redo: () => void;
+  jumpToHistory: (index: number) => void;
+  checkoutHistoryBranch: (branchId: string) => void;
+  restoreHistory: (snapshot: HistorySnapshot) => void;
+  beginTransaction: (label?: string) => void;
+  commitTransaction: (label?: string) => void;
 }
 
 export const useAppStore = create<AppState>((set, get) => ({
@@ -162,6 +208,10 @@ export const useAppStore = create<AppState>((set, get) => ({
   sqlQueries: [],
   selectedQuery: null,
   
+  // Workflows
+  workflows: [],
+  selectedWorkflow: null,
+  
   // Datasources
   datasources: [],
   selectedDatasource: null,
@@ -191,12 +241,19 @@ export const useAppStore = create<AppState>((set, get) => ({
   setRightPanelTab: (tab) => set({ rightPanelTab: tab }),
   
   // Component Actions
-  addComponent: (component) =>
+  addComponent: (component) => {
+    historyManager.recordComponentAdd(component);
     set((state) => ({
       components: [...state.components, component],
-    })),
+      ...getHistoryFlags(),
+    }));
+  },
 
-  updateComponent: (id, updates) =>
+  updateComponent: (id, updates) => {
+    const component = get().components.find((comp) => comp.id === id);
+    if (!component) return;
+
+    historyManager.recordComponentUpdate(id, pickKeys(component, Object.keys(updates)), updates);
     set((state) => ({
       components: state.components.map((comp) =>
         comp.id === id ? { ...comp, ...updates } : comp
@@ -205,31 +262,140 @@ export const useAppStore = create<AppState>((set, get) => ({
         state.selectedComponent?.id === id
           ? { ...state.selectedComponent, ...updates }
           : state.selectedComponent,
-    })),
+      ...getHistoryFlags(),
+    }));
+  },
 
-  deleteComponent: (id) =>
+  deleteComponent: (id) => {
+    const index = get().components.findIndex((comp) => comp.id === id);
+    if (index === -1) return;
+
+    historyManager.recordComponentDelete(get().components[index], index);
     set((state) => ({
       components: state.components.filter((comp) => comp.id !== id),
       selectedComponent:
         state.selectedComponent?.id === id ? null : state.selectedComponent,
-    })),
+      ...getHistoryFlags(),
+    }));
+  },
 
-  duplicateComponent: (id) =>
-    set((state) => {
-      const component = state.components.find(c => c.id === id);
-      if (!component) return state;
-      
-      const newComponent = {
-        ...component,
-        id: `${component.id}-copy-${Date.now()}`,
-        x: component.x + 20,
-        y: component.y + 20
-      };
-      
-      return {
-        components: [...state.components, newComponent]
-      };
-    }),
+  duplicateComponent: (id) => {
+    const component = get().components.find(c => c.id === id);
+    if (!component) return;
+
+    const newComponent = {
+      ...component,
+      id: `${component.id}-copy-${Date.now()}`,
+      name: createWidgetName(component.type, get().getComponentNames()),
+      x: component.x + 20,
+      y: component.y + 20
+    };
+
+    historyManager.recordComponentAdd(newComponent);
+    set((state) => ({
+      components: [...state.components, newComponent],
+      ...getHistoryFlags(),
+    }));
+  },
+
+  renameComponent: (id, name) => {
+    const state = get();
+    const component = state.components.find((comp) => comp.id === id);
+    if (!component) return 'Component not found';
+    if (component.name === name) return null;
+
+    const error = validateWidgetName(name, state.getComponentNames().filter((n) => n !== component.name));
+    if (error) return error;
+
+    // Rename the widget and rewrite `widgets.<old>` on every page and in the
+    // data actions and workflows as one undo step. The current page goes
+    // first so undo returns to it.
+    const from = component.name;
+    const synced = syncCurrentPage(state);
+    const ordered = [...synced].sort((a, b) =>
+      Number(b.id === state.currentPageId) - Number(a.id === state.currentPageId)
+    );
+    const renamed = new Map<string, AppPage>();
+
+    historyManager.beginTransaction(`Rename ${from} to ${name}`);
+    for (const page of ordered) {
+      let changed = false;
+      const components = page.components.map((comp) => {
+        const updates: Partial<ComponentData> = {
+          ...renameInComponent(comp, from, name),
+          ...(comp.id === id ? { name } : {})
+        };
+        if (Object.keys(updates).length === 0) return comp;
+
+        changed = true;
+        historyManager.addEntry({
+          action: 'update',
+          componentId: comp.id,
+          pageId: page.id,
+          before: pickKeys(comp, Object.keys(updates)),
+          after: updates
+        });
+        return { ...comp, ...updates };
+      });
+
+      const pageUpdates = renameInPage(page, from, name);
+      if (pageUpdates) {
+        changed = true;
+        historyManager.addEntry({
+          action: 'update',
+          target: 'page',
+          targetId: page.id,
+          pageId: page.id,
+          before: pickKeys(page, Object.keys(pageUpdates)),
+          after: pageUpdates
+        });
+      }
+      if (changed) renamed.set(page.id, { ...page, ...pageUpdates, components });
+    }
+
+    const renameRecords = <T extends { id: string }>(records: T[], target: HistoryTarget): T[] =>
+      records.map((record) => {
+        const updates = renameInRecord(record, from, name);
+        if (!updates) return record;
+
+        historyManager.addEntry({
+          action: 'update',
+          target,
+          targetId: record.id,
+          before: pickKeys(record, Object.keys(updates)),
+          after: updates
+        });
+        return { ...record, ...updates };
+      });
+    const apis = renameRecords(state.apis, 'api');
+    const sqlQueries = renameRecords(state.sqlQueries, 'sqlQuery');
+    const workflows = renameRecords(state.workflows, 'workflow');
+    historyManager.commitTransaction();
+
+    const pages = synced.map((page) => renamed.get(page.id) || page);
+    const current = pages.find((page) => page.id === state.currentPageId)!;
+    set({
+      pages,
+      components: current.components,
+      selectedComponent: current.components.find((comp) => comp.id === state.selectedComponent?.id) || null,
+      apis,
+      selectedApi: apis.find((api) => api.id === state.selectedApi?.id) || state.selectedApi,
+      sqlQueries,
+      selectedQuery: sqlQueries.find((query) => query.id === state.selectedQuery?.id) || state.selectedQuery,
+      workflows,
+      selectedWorkflow: workflows.find((workflow) => workflow.id === state.selectedWorkflow?.id) || state.selectedWorkflow,
+      ...getHistoryFlags(),
+    });
+    return null;
+  },
+
+  getComponentNames: () => {
+    const { pages, components, currentPageId } = get();
+    return [
+      ...components,
+      ...pages.filter((page) => page.id !== currentPageId).flatMap((page) => page.components)
+    ].map((comp) => comp.name);
+  },
 
   selectComponent: (component) =>
     set({ selectedComponent: component }),
@@ -246,19 +412,35 @@ export const useAppStore = create<AppState>((set, get) => ({
       snapToGrid: updates.snapToGrid !== undefined ? updates.snapToGrid : state.snapToGrid,
     })),
 
-  moveComponent: (id, x, y) =>
+  moveComponent: (id, x, y) => {
+    const component = get().components.find((comp) => comp.id === id);
+    if (!component) return;
+
+    historyManager.recordComponentMove(id, { x: component.x, y: component.y }, { x, y });
     set((state) => ({
       components: state.components.map((comp) =>
         comp.id === id ? { ...comp, x, y } : comp
       ),
-    })),
+      ...getHistoryFlags(),
+    }));
+  },
+
+  resizeComponent: (id, width, height) => {
+    const component = get().components.find((comp) => comp.id === id);
+    if (!component) return;
 
-  resizeComponent: (id, width, height) =>
+    historyManager.recordComponentResize(
+      id,
+      { width: component.width, height: component.height },
+      { width, height }
+    );
     set((state) => ({
       components: state.components.map((comp) =>
         comp.id === id ? { ...comp, width, height } : comp
       ),
-    })),
+      ...getHistoryFlags(),
+    }));
+  },
   
   // Page Actions
   addPage: (page) =>
@@ -273,32 +455,98 @@ export const useAppStore = create<AppState>((set, get) => ({
       ),
     })),
   
-  deletePage: (id) =>
-    set((state) => ({
-      pages: state.pages.filter((page) => page.id !== id),
-      currentPageId: state.currentPageId === id ? state.pages[0]?.id || '' : state.currentPageId,
-    })),
+  deletePage: (id) => {
+    const { pages, currentPageId } = get();
+    if (pages.length <= 1 || !pages.some((page) => page.id === id)) return;
+
+    const remaining = pages.filter((page) => page.id !== id);
+    if (!remaining.some((page) => page.isHomePage)) {
+      remaining[0] = { ...remaining[0], isHomePage: true };
+    }
+
+    if (currentPageId !== id) {
+      set({ pages: remaining });
+      return;
+    }
+
+    const nextPage = remaining.find((page) => page.isHomePage) || remaining[0];
+    historyManager.setPage(nextPage.id);
+    set({
+      pages: remaining,
+      currentPageId: nextPage.id,
+      components: nextPage.components,
+      selectedComponent: null,
+    });
+  },
 
   duplicatePage: (id) =>
     set((state) => {
-      const page = state.pages.find(p => p.id === id);
+      const pages = syncCurrentPage(state);
+      const page = pages.find(p => p.id === id);
       if (!page) return state;
-      
+
+      const suffix = Date.now();
+      const name = `${page.name} Copy`;
+
+      // Copies get fresh widget names, and bindings inside the copy follow them
+      const taken = new Set(pages.flatMap((p) => p.components.map((comp) => comp.name)));
+      const renames = page.components.map((comp) => {
+        const newName = createWidgetName(comp.type, taken);
+        taken.add(newName);
+        return [comp.name, newName];
+      });
+
       const newPage = {
         ...page,
-        id: `${page.id}-copy-${Date.now()}`,
-        name: `${page.name} Copy`,
-        route: `${page.route}-copy`,
-        isHomePage: false
+        id: `${page.id}-copy-${suffix}`,
+        name,
+        route: routeFromName(pages, name),
+        isHomePage: false,
+        components: page.components.map((comp, index) =>
+          renames.reduce<ComponentData>(
+            (acc, [from, to]) => ({ ...acc, ...renameInComponent(acc, from, to) }),
+            { ...comp, id: `${comp.id}-copy-${suffix}`, name: renames[index][1] }
+          )
+        )
       };
-      
+
       return {
-        pages: [...state.pages, newPage]
+        pages: [...pages, newPage]
       };
     }),
-  
-  setCurrentPage: (id) =>
-    set({ currentPageId: id }),
+
+  movePage: (id, toIndex) =>
+    set((state) => {
+      const from = state.pages.findIndex((page) => page.id === id);
+      if (from === -1) return state;
+      const pages = [...state.pages];
+      const [page] = pages.splice(from, 1);
+      pages.splice(Math.max(0, Math.min(toIndex, pages.length)), 0, page);
+      return { pages };
+    }),
+
+  // Exactly one page is the home page
+  setHomePage: (id) =>
+    set((state) => ({
+      pages: state.pages.map((page) => ({ ...page, isHomePage: page.id === id }))
+    })),
+
+  setCurrentPage: (id) => {
+    const { pages, currentPageId } = get();
+    if (id === currentPageId || !pages.some((page) => page.id === id)) return;
+
+    historyManager.setPage(id);
+    set((state) => {
+      const synced = syncCurrentPage(state);
+      const page = synced.find((p) => p.id === id)!;
+      return {
+        pages: synced,
+        currentPageId: id,
+        components: page.components,
+        selectedComponent: null,
+      };
+    });
+  },
   
   // API Actions
   addApi: (api) =>
@@ -343,50 +591,16 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ selectedApi: api }),
   
   runApi: async (id) => {
-    const state = get();
-    const api = state.apis.find(a => a.id === id);
-    if (!api) return;
-    
-    set((state) => ({
-      apis: state.apis.map((a) =>
-        a.id === id ? { ...a, isLoading: true, error: undefined } : a
-      ),
-    }));
-    
-    try {
-      const headers = { ...api.headers };
-      if (api.authentication?.type === 'bearer' && api.authentication.token) {
-        headers['Authorization'] = `Bearer ${api.authentication.token}`;
-      } else if (api.authentication?.type === 'api-key' && api.authentication.apiKey) {
-        headers[api.authentication.apiKeyHeader || 'X-API-Key'] = api.authentication.apiKey;
-      }
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), api.timeout || 30000);
-      
-      const response = await fetch(api.url, {
-        method: api.method,
-        headers,
-        body: api.method !== 'GET' ? api.body : undefined,
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      
-      const data = await response.json();
-      
-      set((state) => ({
-        apis: state.apis.map((a) =>
-          a.id === id ? { ...a, isLoading: false, response: data } : a
-        ),
-      }));
-    } catch (error) {
-      set((state) => ({
-        apis: state.apis.map((a) =>
-          a.id === id ? { ...a, isLoading: false, error: (error as Error).message } : a
-        ),
-      }));
-    }
+    const actionId = dataActionBridge.findAction('api', id);
+    if (!actionId) return;
+    // Running from the editor always makes a fresh request
+    actionManager.invalidate(actionId);
+    await actionManager.run(actionId);
+  },
+
+  cancelApi: (id) => {
+    const actionId = dataActionBridge.findAction('api', id);
+    if (actionId) actionManager.cancel(actionId);
   },
   
   // SQL Actions
@@ -432,37 +646,58 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ selectedQuery: query }),
   
   runSqlQuery: async (id) => {
-    const state = get();
-    const query = state.sqlQueries.find(q => q.id === id);
-    if (!query) return;
-    
+    const actionId = dataActionBridge.findAction('query', id);
+    if (!actionId) return;
+    actionManager.invalidate(actionId);
+    await actionManager.run(actionId);
+  },
+  
+  // Workflow Actions
+  addWorkflow: (workflow) =>
     set((state) => ({
-      sqlQueries: state.sqlQueries.map((q) =>
-        q.id === id ? { ...q, isLoading: true, error: undefined } : q
+      workflows: [...state.workflows, workflow],
+    })),
+
+  updateWorkflow: (id, updates) =>
+    set((state) => ({
+      workflows: state.workflows.map((workflow) =>
+        workflow.id === id ? { ...workflow, ...updates } : workflow
       ),
-    }));
-    
-    try {
-      // Simulate SQL query execution
-      await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-      const mockResult = [
-        { id: 1, name: 'John Doe', email: 'john@example.com', role: 'Admin', created_at: '2024-01-15' },
-        { id: 2, name: 'Jane Smith', email: 'jane@example.com', role: 'User', created_at: '2024-01-16' },
-        { id: 3, name: 'Bob Johnson', email: 'bob@example.com', role: 'Editor', created_at: '2024-01-17' },
-      ];
-      
-      set((state) => ({
-        sqlQueries: state.sqlQueries.map((q) =>
-          q.id === id ? { ...q, isLoading: false, result: mockResult } : q
-        ),
-      }));
-    } catch (error) {
-      set((state) => ({
-        sqlQueries: state.sqlQueries.map((q) =>
-          q.id === id ? { ...q, isLoading: false, error: (error as Error).message } : q
-        ),
-      }));
+      selectedWorkflow:
+        state.selectedWorkflow?.id === id
+          ? { ...state.selectedWorkflow, ...updates }
+          : state.selectedWorkflow,
+    })),
+
+  deleteWorkflow: (id) =>
+    set((state) => ({
+      workflows: state.workflows.filter((workflow) => workflow.id !== id),
+      selectedWorkflow: state.selectedWorkflow?.id === id ? null : state.selectedWorkflow,
+    })),
+
+  duplicateWorkflow: (id) =>
+    set((state) => {
+      const workflow = state.workflows.find(w => w.id === id);
+      if (!workflow) return state;
+
+      return {
+        workflows: [...state.workflows, {
+          ...workflow,
+          id: `${workflow.id}-copy-${Date.now()}`,
+          name: `${workflow.name} Copy`
+        }]
+      };
+    }),
+
+  selectWorkflow: (workflow) =>
+    set({ selectedWorkflow: workflow }),
+
+  runWorkflow: async (id, params) => {
+    const actionId = dataActionBridge.findAction('workflow', id);
+    if (!actionId) {
+      return { success: false, error: 'Workflow is not registered; check that its name is unique' };
     }
+    return actionManager.run(actionId, params);
   },
   
   // Datasource Actions
@@ -521,8 +756,10 @@ export const useAppStore = create<AppState>((set, get) => ({
   // Code Generation Actions
   generateCode: () => {
     const state = get();
-    const currentPage = state.pages.find(p => p.id === state.currentPageId);
-    if (!currentPage) return;
+    const pages = syncCurrentPage(state);
+    const homePage = pages.find(p => p.isHomePage) || pages[0];
+    if (!homePage) return;
+    const allComponents = pages.flatMap(page => page.components);
     
     // Generate HTML
     const html = `<!DOCTYPE html>
@@ -530,15 +767,22 @@ export const useAppStore = create<AppState>((set, get) => ({
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${currentPage.seo?.title || currentPage.name}</title>
-    <meta name="description" content="${currentPage.seo?.description || ''}">
+    <title>${homePage.seo?.title || homePage.name}</title>
+    <meta name="description" content="${homePage.seo?.description || ''}">
+    <meta name="keywords" content="${(homePage.seo?.keywords || []).join(', ')}">
     <link rel="stylesheet" href="styles.css">
 </head>
 <body>
     <div id="app">
-${state.components.map(component => `        <div class="component component-${component.type}" style="position: absolute; left: ${component.x}px; top: ${component.y}px; width: ${component.width}px; height: ${component.height}px;">
-            ${generateComponentHTML(component)}
-        </div>`).join('\n')}
+${pages.map(page => `        <section class="page" data-page-id="${page.id}" hidden>
+${page.components.map(component => `            <div class="component component-${component.type}" style="position: absolute; left: ${component.x}px; top: ${component.y}px; width: ${component.width}px; height: ${component.height}px;">
+                ${generateComponentHTML(component)}
+            </div>`).join('\n')}
+        </section>`).join('\n')}
+        <section class="page" data-page-id="not-found" hidden>
+            <h1>Page not found</h1>
+            <a href="#/">Go to ${homePage.name}</a>
+        </section>
     </div>
     <script src="script.js"></script>
 </body>
@@ -558,7 +802,7 @@ body {
     color: ${state.settings.theme.colors.text};
 }
 
-#app {
+#app, .page {
     position: relative;
     min-height: 100vh;
 }
@@ -567,30 +811,125 @@ body {
     position: absolute;
 }
 
-${state.components.map(component => generateComponentCSS(component)).join('\n')}`;
+${allComponents.map(component => generateComponentCSS(component)).join('\n')}`;
 
     // Generate JavaScript
     const javascript = `// Generated JavaScript
 class AppBuilder {
     constructor() {
         this.state = ${JSON.stringify(state.globalState, null, 4)};
+        this.pages = ${JSON.stringify(pages.map(page => ({
+          id: page.id,
+          name: page.name,
+          route: page.route || null,
+          isHomePage: Boolean(page.isHomePage),
+          title: page.seo?.title || page.name,
+          description: page.seo?.description || '',
+          keywords: (page.seo?.keywords || []).join(', ')
+        })), null, 4)};
+        this.route = { page: null, params: {}, query: {} };
         this.init();
     }
     
     init() {
         this.bindEvents();
         this.loadData();
+        window.addEventListener('hashchange', () => this.renderRoute());
+        this.renderRoute();
+    }
+    
+    // Routes live in the URL hash (#/orders/5?tab=items), so any static host can serve the app
+    navigate(path, query = {}, replace = false) {
+        const search = new URLSearchParams(query).toString();
+        const hash = '#' + path + (search ? (path.includes('?') ? '&' : '?') + search : '');
+        if (replace) {
+            history.replaceState(null, '', hash);
+            this.renderRoute();
+        } else {
+            window.location.hash = hash;
+        }
+    }
+    
+    matchRoute(route, path) {
+        const routeSegments = route.split('/').filter(Boolean);
+        const pathSegments = path.split('/').filter(Boolean);
+        if (routeSegments.length !== pathSegments.length) return null;
+        const params = {};
+        for (let i = 0; i < routeSegments.length; i++) {
+            if (routeSegments[i].startsWith(':')) {
+                params[routeSegments[i].slice(1)] = decodeURIComponent(pathSegments[i]);
+            } else if (routeSegments[i] !== pathSegments[i]) {
+                return null;
+            }
+        }
+        return params;
+    }
+    
+    resolveRoute(path) {
+        const fixed = (route) => route.split('/').filter(s => s && !s.startsWith(':')).length;
+        const routed = this.pages.filter(p => p.route).sort((a, b) => fixed(b.route) - fixed(a.route));
+        for (const page of routed) {
+            const params = this.matchRoute(page.route, path);
+            if (params) return { page, params };
+        }
+        if (path.replace(/\\/+$/, '') === '') {
+            const home = this.pages.find(p => p.isHomePage);
+            if (home) return { page: home, params: {} };
+        }
+        const name = decodeURIComponent(path.replace(/^\\/+|\\/+$/g, ''));
+        const named = this.pages.find(p => p.id === name || p.name === name);
+        return named ? { page: named, params: {} } : null;
+    }
+    
+    renderRoute() {
+        const [path, search = ''] = (window.location.hash.slice(1) || '/').split('?');
+        const match = this.resolveRoute(path);
+        const pageId = match ? match.page.id : 'not-found';
+        this.route = {
+            page: match ? match.page.id : null,
+            params: match ? match.params : {},
+            query: Object.fromEntries(new URLSearchParams(search))
+        };
+        document.querySelectorAll('.page').forEach(section => {
+            section.hidden = section.dataset.pageId !== pageId;
+        });
+        document.title = match ? match.page.title : 'Page not found';
+        document.querySelector('meta[name="description"]').content = match ? match.page.description : '';
+        document.querySelector('meta[name="keywords"]').content = match ? match.page.keywords : '';
     }
     
     bindEvents() {
         // Event bindings for components
-${state.components.filter(c => c.events).map(component => 
-    Object.entries(component.events || {}).map(([event, handler]) => 
-        `        document.querySelector('[data-component-id="${component.id}"]')?.addEventListener('${event}', ${handler});`
+${allComponents.filter(c => c.events).map(component =>
+    Object.entries(component.events || {}).filter(([, steps]) => steps.length > 0).map(([event, steps]) =>
+        `        document.querySelector('[data-component-id="${component.id}"]')?.addEventListener('${DOM_EVENTS[event] || event}', () => this.runActions(${JSON.stringify(steps)}));`
     ).join('\n')
 ).join('\n')}
     }
     
+    async runActions(steps) {
+        for (const step of steps) {
+            let ok = true;
+            try {
+                switch (step.type) {
+                    case 'showAlert': alert(step.config.message); break;
+                    case 'navigate':
+                        if (step.config.history === 'back') history.back();
+                        else if (step.config.history === 'forward') history.forward();
+                        else this.navigate(step.config.path, step.config.queryParams, step.config.history === 'replace');
+                        break;
+                    case 'setStore': this.state[step.config.key] = step.config.value; break;
+                    case 'copyToClipboard': await navigator.clipboard.writeText(step.config.text); break;
+                    default: console.warn('Action not available in exported code:', step.actionId || step.type);
+                }
+            } catch (error) {
+                ok = false;
+            }
+            await this.runActions((ok ? step.onSuccess : step.onError) || []);
+            if (!ok) break;
+        }
+    }
+    
     async loadData() {
         // API calls
 ${state.apis.map(api => `        // ${api.name}
@@ -639,6 +978,11 @@ document.addEventListener('DOMContentLoaded', () => {
     set((state) => ({
       globalState: { ...state.globalState, [key]: value },
     })),
+
+  clearGlobalState: (keys) =>
+    set((state) => ({
+      globalState: keys ? omitKeys(state.globalState, keys) : {},
+    })),
   
   // Settings Actions
   updateSettings: (updates) =>
@@ -650,9 +994,353 @@ document.addEventListener('DOMContentLoaded', () => {
     set((state) => ({
       settings: { ...state.settings, theme }
     })),
+
+  // Project
+  projectId: null,
+  projectName: 'Untitled Project',
+  projectDescription: '',
+
+  setProjectName: (name) => set({ projectName: name }),
+
+  getProjectDocument: () => {
+    const state = get();
+    return {
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      id: state.projectId,
+      name: state.projectName,
+      description: state.projectDescription,
+      pages: syncCurrentPage(state),
+      apis: state.apis.map((api) => omitKeys(api, ['response', 'isLoading', 'error'])),
+      queries: state.sqlQueries.map((query) => omitKeys(query, ['result', 'isLoading', 'error'])),
+      datasources: state.datasources,
+      workflows: state.workflows,
+      globalState: state.globalState,
+      settings: state.settings,
+      history: historyManager.serialize(),
+      savedAt: new Date().toISOString()
+    };
+  },
+
+  loadProjectDocument: (document) => {
+    if (document.pages.length === 0) return;
+
+    const currentPage = document.pages.find((page) => page.isHomePage) || document.pages[0];
+    historyManager.setPage(currentPage.id);
+    if (document.history) {
+      historyManager.restore(document.history);
+    } else {
+      historyManager.clear();
+    }
+
+    set((state) => ({
+      projectId: document.id,
+      projectName: document.name,
+      projectDescription: document.description || '',
+      pages: document.pages,
+      currentPageId: currentPage.id,
+      components: currentPage.components,
+      selectedComponent: null,
+      apis: document.apis,
+      selectedApi: null,
+      sqlQueries: document.queries,
+      selectedQuery: null,
+      workflows: document.workflows,
+      selectedWorkflow: null,
+      datasources: document.datasources,
+      selectedDatasource: null,
+      globalState: document.globalState,
+      settings: { ...state.settings, ...document.settings },
+      ...getHistoryFlags(),
+    }));
+  },
+
+  saveProject: async () => {
+    const result = await persistenceService.saveProjectDocument(get().getProjectDocument());
+    if (result.success && result.projectId) {
+      set({ projectId: result.projectId });
+    }
+    return { success: result.success, savedLocally: result.savedLocally, error: result.error };
+  },
+
+  // Unsaved work in the autosave wins over the last saved project
+  restoreProject: async () => {
+    const autosaved = await persistenceService.loadAutoSave();
+    if (autosaved) {
+      get().loadProjectDocument(autosaved);
+      return;
+    }
+
+    const result = await persistenceService.loadProjectDocument();
+    if (result.success && result.project) {
+      get().loadProjectDocument(result.project);
+    }
+  },
+
+  // History
+  canUndo: false,
+  canRedo: false,
+  historyRevision: 0,
+
+  undo: () => {
+    const entry = historyManager.undo();
+    if (!entry) return;
+
+    set((state) => applyHistorySteps(state, [{ entry, direction: 'undo' }]));
+  },
+
+  redo: () => {
+    const entry = historyManager.redo();
+    if (!entry) return;
+
+    set((state) => applyHistorySteps(state, [{ entry, direction: 'redo' }]));
+  },
+
+  jumpToHistory: (index) => {
+    const steps = historyManager.jumpTo(index);
+    set((state) => applyHistorySteps(state, steps));
+  },
+
+  checkoutHistoryBranch: (branchId) => {
+    const steps = historyManager.checkoutBranch(branchId);
+    set((state) => applyHistorySteps(state, steps));
+  },
+
+  restoreHistory: (snapshot) => {
+    historyManager.restore(snapshot);
+    set(getHistoryFlags());
+  },
+
+  beginTransaction: (label) => historyManager.beginTransaction(label),
+
+  commitTransaction: (label) => {
+    historyManager.commitTransaction(label);
+    set(getHistoryFlags());
+  },
 }));
 
+historyManager.setPage(useAppStore.getState().currentPageId);
+
+// `setStore` / `clearStore` / `persistStore` actions and `{{ store.x }}` share globalState
+actionManager.bindStore({
+  get: () => useAppStore.getState().globalState,
+  set: (key, value) => useAppStore.getState().updateGlobalState(key, value),
+  clear: (keys) => useAppStore.getState().clearGlobalState(keys)
+});
+
+// Every API, query and workflow is registered as an action under its name
+actionManager.setWorkflowRunner((workflow, params) => workflowEngine.run(workflow, params));
+dataActionBridge.sync(useAppStore.getState().apis, useAppStore.getState().sqlQueries, useAppStore.getState().workflows);
+useAppStore.subscribe((state, prev) => {
+  if (state.apis !== prev.apis || state.sqlQueries !== prev.sqlQueries || state.workflows !== prev.workflows) {
+    dataActionBridge.sync(state.apis, state.sqlQueries, state.workflows);
+  }
+});
+
+// Mirror action runs back onto the API / query so DataPanel and the editors see them,
+// whether they were started from a Run button or from a binding
+actionManager.onActionsChange((actionId) => {
+  const source = actionManager.getAction(actionId)?.source;
+  if (!source) return;
+
+  const { isLoading } = actionManager.getActionState(actionId);
+  const result = actionManager.getResult(actionId);
+  const error = result && !result.success && !isLoading ? result.error : undefined;
+  const state = useAppStore.getState();
+
+  if (source.type === 'api') {
+    const api = state.apis.find((a) => a.id === source.id);
+    if (!api) return;
+    const response = result?.data !== undefined ? result.data : api.response;
+    if (api.isLoading !== isLoading || api.error !== error || api.response !== response) {
+      state.updateApi(api.id, { isLoading, error, response });
+    }
+  } else if (source.type === 'query') {
+    const query = state.sqlQueries.find((q) => q.id === source.id);
+    if (!query) return;
+    const rows = result?.success ? result.data : query.result;
+    if (query.isLoading !== isLoading || query.error !== error || query.result !== rows) {
+      state.updateSqlQuery(query.id, { isLoading, error, result: rows });
+    }
+  }
+});
+
+// Helper functions for history
+function getHistoryFlags() {
+  return {
+    canUndo: historyManager.canUndo(),
+    canRedo: historyManager.canRedo(),
+    historyRevision: historyManager.getRevision(),
+  };
+}
+
+function omitKeys<T extends object, K extends keyof T>(source: T, keys: K[]): Omit<T, K> {
+  const result = { ...source };
+  keys.forEach((key) => delete result[key]);
+  return result;
+}
+
+function pickKeys<T extends object>(source: T, keys: string[]): Partial<T> {
+  const picked: Partial<T> = {};
+  for (const key of keys) {
+    picked[key as keyof T] = source[key as keyof T];
+  }
+  return picked;
+}
+
+// The canvas edits `components` directly; this writes them back into the
+// current page so `pages` is complete before switching or saving.
+function syncCurrentPage(state: AppState): AppPage[] {
+  return state.pages.map((page) =>
+    page.id === state.currentPageId ? { ...page, components: state.components } : page
+  );
+}
+
+// Replays history steps without recording them, so undo/redo never feed back
+// into the history they are walking. Each entry is applied to the page it was
+// recorded on, and the canvas follows to the page of the last step.
+function applyHistorySteps(state: AppState, steps: HistoryStep[]): Partial<AppState> {
+  const pages = steps.reduce(
+    (acc, step) => applyEntryToPages(acc, step.entry, step.direction, state.currentPageId),
+    syncCurrentPage(state)
+  );
+
+  const lastPageId = steps[steps.length - 1]?.entry.pageId;
+  const currentPage =
+    pages.find((page) => page.id === lastPageId) ||
+    pages.find((page) => page.id === state.currentPageId)!;
+
+  if (currentPage.id !== state.currentPageId) {
+    historyManager.setPage(currentPage.id);
+  }
+
+  const selectedComponent = state.selectedComponent && currentPage.id === state.currentPageId
+    ? currentPage.components.find((comp) => comp.id === state.selectedComponent!.id) || null
+    : null;
+
+  const records = steps.reduce(
+    (acc, step) => applyEntryToRecords(acc, step.entry, step.direction),
+    pickRecords(state)
+  );
+
+  return {
+    pages,
+    currentPageId: currentPage.id,
+    components: currentPage.components,
+    selectedComponent,
+    ...records,
+    ...getHistoryFlags(),
+  };
+}
+
+type HistoryRecords = Pick<AppState, 'apis' | 'selectedApi' | 'sqlQueries' | 'selectedQuery' | 'workflows' | 'selectedWorkflow'>;
+
+function pickRecords(state: AppState): HistoryRecords {
+  const { apis, selectedApi, sqlQueries, selectedQuery, workflows, selectedWorkflow } = state;
+  return { apis, selectedApi, sqlQueries, selectedQuery, workflows, selectedWorkflow };
+}
+
+// Applies the entries that target a data action or workflow (see renameComponent)
+function applyEntryToRecords(records: HistoryRecords, entry: HistoryEntry, direction: 'undo' | 'redo'): HistoryRecords {
+  if (entry.action === 'batch') {
+    const entries = direction === 'undo' ? [...(entry.entries || [])].reverse() : entry.entries || [];
+    return entries.reduce((acc, child) => applyEntryToRecords(acc, child, direction), records);
+  }
+
+  const patch = direction === 'undo' ? entry.before : entry.after;
+  const apply = <T extends { id: string }>(items: T[]): T[] =>
+    items.map((item) => (item.id === entry.targetId ? { ...item, ...patch } : item));
+  const select = <T extends { id: string }>(items: T[], selected: T | null): T | null =>
+    selected && (items.find((item) => item.id === selected.id) || selected);
+
+  switch (entry.target) {
+    case 'api': {
+      const apis = apply(records.apis);
+      return { ...records, apis, selectedApi: select(apis, records.selectedApi) };
+    }
+    case 'sqlQuery': {
+      const sqlQueries = apply(records.sqlQueries);
+      return { ...records, sqlQueries, selectedQuery: select(sqlQueries, records.selectedQuery) };
+    }
+    case 'workflow': {
+      const workflows = apply(records.workflows);
+      return { ...records, workflows, selectedWorkflow: select(workflows, records.selectedWorkflow) };
+    }
+    default:
+      return records;
+  }
+}
+
+// Batches can span pages (e.g. a rename rewriting bindings everywhere);
+// each child then applies to the page it was recorded on
+function applyEntryToPages(
+  pages: AppPage[],
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo',
+  fallbackPageId: string
+): AppPage[] {
+  const pageId = entry.pageId ?? fallbackPageId;
+
+  if (entry.action === 'batch' && entry.entries?.some((child) => child.target || (child.pageId ?? pageId) !== pageId)) {
+    const children = direction === 'undo' ? [...entry.entries].reverse() : entry.entries;
+    return children.reduce((acc, child) => applyEntryToPages(acc, child, direction, pageId), pages);
+  }
+
+  if (entry.target) {
+    const patch = direction === 'undo' ? entry.before : entry.after;
+    return entry.target === 'page'
+      ? pages.map((page) => (page.id === entry.targetId ? { ...page, ...patch } : page))
+      : pages;
+  }
+
+  return pages.map((page) =>
+    page.id === pageId
+      ? { ...page, components: applyEntryToComponents(page.components, entry, direction) }
+      : page
+  );
+}
+
+function applyEntryToComponents(
+  components: ComponentData[],
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo'
+): ComponentData[] {
+  const isUndo = direction === 'undo';
+
+  switch (entry.action) {
+    case 'batch': {
+      const entries = isUndo ? [...(entry.entries || [])].reverse() : entry.entries || [];
+      return entries.reduce((acc, child) => applyEntryToComponents(acc, child, direction), components);
+    }
+    case 'add':
+      return isUndo
+        ? components.filter((comp) => comp.id !== entry.componentId)
+        : [...components, entry.after];
+    case 'delete': {
+      if (!isUndo) {
+        return components.filter((comp) => comp.id !== entry.componentId);
+      }
+      const restored = [...components];
+      restored.splice(entry.index ?? restored.length, 0, entry.before);
+      return restored;
+    }
+    case 'update':
+    case 'move':
+    case 'resize': {
+      const patch = isUndo ? entry.before : entry.after;
+      return components.map((comp) =>
+        comp.id === entry.componentId ? { ...comp, ...patch } : comp
+      );
+    }
+  }
+}
+
 // Helper functions for code generation
+const DOM_EVENTS: Record<string, string> = {
+  onClick: 'click',
+  onChange: 'change',
+  onSubmit: 'submit'
+};
+
 function generateComponentHTML(component: ComponentData): string {
   switch (component.type) {
     case 'button':
@@ -1,5 +1,10 @@
+import type { HistorySnapshot } from '../engine/HistoryManager';
+import type { ActionDefinition } from '../engine/ActionManager';
+
 export interface ComponentData {
   id: string;
+  // Unique across the app; bindings refer to the widget as `widgets.<name>`
+  name: string;
   type: ComponentType;
   x: number;
   y: number;
@@ -8,7 +13,8 @@ export interface ComponentData {
   props: Record<string, any>;
   style: Record<string, any>;
   bindings?: Record<string, string>;
-  events?: Record<string, string>;
+  // Declared events (`onClick`, `onChange`, ...) mapped to the actions they run
+  events?: ComponentEvents;
   customCSS?: string;
   customJS?: string;
   customHTML?: string;
@@ -83,9 +89,8 @@ export interface ButtonProps {
     disableWhenInvalid: boolean;
     resetOnSuccess: boolean;
   };
-  actions: {
-    onClick: ActionConfig;
-  };
+  // `{{ }}` handler in the editor; RuntimeRenderer turns it into a function
+  onClick?: () => void;
 }
 
 export interface InputProps {
@@ -128,7 +133,6 @@ export interface ImageProps {
   src: string;
   alt: string;
   fit: 'cover' | 'contain' | 'fill' | 'scale-down' | 'none';
-  clickAction: ActionConfig;
   visible: boolean;
   borderRadius?: string;
   opacity?: number;
@@ -218,6 +222,46 @@ export interface CheckboxProps {
   size?: 'sm' | 'md' | 'lg';
 }
 
+// Runtime properties widgets publish to `widgets.<id>` while the app runs
+export interface InputState {
+  value: string;
+  isValid: boolean;
+}
+
+export interface SelectState {
+  value: string | string[];
+  selectedOptions: SelectOption[];
+}
+
+export interface CheckboxState {
+  checked: boolean;
+  value: boolean;
+}
+
+export interface DatePickerState {
+  value: string | null;
+  formattedValue: string;
+}
+
+export interface TableState {
+  selectedRow: unknown;
+  selectedRows: unknown[];
+  selectedRowIndex: number | null;
+  pageNo: number;
+  searchText: string;
+  sortColumn: string | null;
+  sortDirection: 'asc' | 'desc';
+}
+
+export interface FormState {
+  values: Record<string, unknown>;
+  isValid: boolean;
+  isDirty: boolean;
+  isSubmitting: boolean;
+}
+
+export type WidgetState = InputState | SelectState | CheckboxState | DatePickerState | TableState | FormState;
+
 export interface CustomFunctionProps {
   html: string;
   css: string;
@@ -227,6 +271,39 @@ export interface CustomFunctionProps {
   height?: number;
 }
 
+/**
+ * One step of an event handler: either a registered action (`actionId`, e.g.
+ * an API or query) or an inline action described by `type` and `config`.
+ * `onSuccess` runs after the step succeeds; `onError` runs when it fails and
+ * the remaining steps are skipped.
+ */
+export interface EventAction {
+  id: string;
+  actionId?: string;
+  type?: ActionDefinition['type'];
+  config?: Record<string, unknown>;
+  params?: Record<string, unknown>;
+  // Asks the user before the step runs; declining stops the whole list
+  confirm?: ConfirmationConfig;
+  onSuccess?: EventAction[];
+  onError?: EventAction[];
+}
+
+/**
+ * A confirmation dialog shown before an action runs. `title` and `message`
+ * may be `{{ }}` templates with the event's `params` in scope.
+ */
+export interface ConfirmationConfig {
+  title?: string;
+  message?: string;
+  confirmLabel?: string;
+  cancelLabel?: string;
+  // Shows the confirm button in red, for deletes and other irreversible actions
+  destructive?: boolean;
+}
+
+export type ComponentEvents = Record<string, EventAction[]>;
+
 export interface ActionConfig {
   type: 'query' | 'js' | 'modal' | 'navigate' | 'alert' | 'download' | 'copy' | 'none';
   target?: string;
@@ -235,11 +312,24 @@ export interface ActionConfig {
     enabled: boolean;
     title?: string;
     message?: string;
+    confirmLabel?: string;
+    cancelLabel?: string;
+    destructive?: boolean;
   };
   successMessage?: string;
   errorMessage?: string;
 }
 
+/**
+ * How long a successful run of an API or query is reused. Within `ttl` the
+ * cached result is returned without a request; for `staleWhileRevalidate`
+ * after that it is still returned, but refreshed in the background.
+ */
+export interface CachePolicy {
+  ttl: number;
+  staleWhileRevalidate?: number;
+}
+
 export interface ApiEndpoint {
   id: string;
   name: string;
@@ -261,6 +351,11 @@ export interface ApiEndpoint {
   error?: string;
   timeout?: number;
   retries?: number;
+  // Base delay before the first retry; doubles on each attempt
+  retryDelay?: number;
+  // Response statuses worth retrying; network errors and timeouts always are
+  retryOn?: number[];
+  cache?: CachePolicy;
 }
 
 export interface SqlQuery {
@@ -274,6 +369,50 @@ export interface SqlQuery {
   parameters?: Record<string, any>;
   timeout?: number;
   limit?: number;
+  cache?: CachePolicy;
+}
+
+export type WorkflowNodeType = 'start' | 'action' | 'condition' | 'parallel' | 'loop' | 'delay' | 'setVariable';
+
+/**
+ * Config per node type (all values may contain `{{ }}` and can read `vars`
+ * and `params`):
+ * - action: `actionId`, or `actionType` + `actionConfig`; `params`; `resultVariable`
+ * - condition: `expression`
+ * - loop: `items`, `itemVariable`
+ * - delay: `ms`
+ * - setVariable: `name`, `value`
+ */
+export interface WorkflowNode {
+  id: string;
+  type: WorkflowNodeType;
+  label?: string;
+  x: number;
+  y: number;
+  config: Record<string, unknown>;
+}
+
+/**
+ * Which outlet of a node an edge leaves from: `next` for plain steps,
+ * `success`/`error` for actions, `true`/`false` for conditions, `branch`
+ * (fan-out) and `next` (after all branches) for parallel, `body` and `next`
+ * for loops.
+ */
+export type WorkflowPort = 'next' | 'success' | 'error' | 'true' | 'false' | 'branch' | 'body';
+
+export interface WorkflowEdge {
+  id: string;
+  from: string;
+  to: string;
+  port: WorkflowPort;
+}
+
+export interface Workflow {
+  id: string;
+  name: string;
+  description?: string;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
 }
 
 export interface Datasource {
@@ -295,14 +434,42 @@ export interface Datasource {
   lastTested?: Date;
 }
 
+/**
+ * Re-runs a registered action (API, query or workflow name) on an interval
+ * while its page is open.
+ */
+export interface PagePolling {
+  id: string;
+  actionId: string;
+  interval: number;
+  // Skips runs while the browser tab is hidden and catches up when it is shown again (default true)
+  pauseWhenHidden?: boolean;
+}
+
+/**
+ * Who may open a page. `condition` is a `{{ }}` expression checked when the
+ * page opens; when it is falsy the user is sent to `redirectTo`, or shown an
+ * access denied page.
+ */
+export interface PageAccess {
+  condition?: string;
+  redirectTo?: string;
+}
+
 export interface AppPage {
   id: string;
   name: string;
   components: ComponentData[];
+  // APIs and queries (by id) that run when the page opens
   apis: string[];
   queries: string[];
+  // Steps run when the page opens and closes, like a widget event's actions
+  onLoad?: EventAction[];
+  onUnload?: EventAction[];
+  polling?: PagePolling[];
   route?: string;
   isHomePage?: boolean;
+  access?: PageAccess;
   seo?: {
     title?: string;
     description?: string;
@@ -368,11 +535,22 @@ export interface PropMeta {
   };
 }
 
-export interface HistoryEntry {
-  id: string;
-  timestamp: number;
-  action: 'add' | 'update' | 'delete' | 'move' | 'resize';
-  componentId?: string;
-  before?: any;
-  after?: any;
-}
\ No newline at end of file
+/**
+ * Serialized form of a whole project, used for Save, Import/Export and
+ * autosave. Bump PROJECT_SCHEMA_VERSION whenever this shape changes.
+ */
+export interface ProjectDocument {
+  schemaVersion: number;
+  id: string | null;
+  name: string;
+  description?: string;
+  pages: AppPage[];
+  apis: ApiEndpoint[];
+  queries: SqlQuery[];
+  datasources: Datasource[];
+  workflows: Workflow[];
+  globalState: GlobalState;
+  settings: AppSettings;
+  history?: HistorySnapshot;
+  savedAt: string;
+}